@@ -0,0 +1,129 @@
+/**
+ * 访问策略
+ * 控制注册哪些工具，以及工具可以访问哪些守护进程和实例
+ */
+export interface AccessPolicy {
+  /**
+   * 只读模式，开启后只注册不修改面板状态的工具
+   */
+  readOnly: boolean;
+
+  /**
+   * 工具白名单，非空时只注册列出的工具
+   */
+  toolAllowList: string[];
+
+  /**
+   * 工具黑名单，列出的工具不会被注册
+   */
+  toolDenyList: string[];
+
+  /**
+   * 守护进程白名单，非空时只能访问列出的守护进程
+   */
+  daemonAllowList: string[];
+
+  /**
+   * 守护进程黑名单
+   */
+  daemonDenyList: string[];
+
+  /**
+   * 实例白名单，非空时只能访问列出的实例
+   */
+  instanceAllowList: string[];
+
+  /**
+   * 实例黑名单
+   */
+  instanceDenyList: string[];
+}
+
+/**
+ * 不修改面板状态的工具，只读模式下只注册这些工具
+ */
+export const READ_ONLY_TOOLS = new Set<string>([
+  "list-panels",
+  "get-daemons",
+  "get-instances",
+  "get-instance-detail",
+  "get-files",
+  "get-file-content",
+  "find-files",
+  "download-file",
+  "get-config-value",
+  "list-file-versions",
+  "diff-file-version",
+  "get-overview",
+  "get-console-output",
+  "list-schedules",
+  "query-metrics",
+  "get-audit-log",
+  "list-users",
+]);
+
+/**
+ * 解析逗号分隔的列表
+ * @param value 列表字符串
+ */
+export function parseList(value: string | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+/**
+ * 按白名单和黑名单判断值是否允许
+ * @param value 待检查的值
+ * @param allowList 白名单
+ * @param denyList 黑名单
+ */
+function isListed(value: string, allowList: string[], denyList: string[]) {
+  if (denyList.includes(value)) {
+    return false;
+  }
+  return allowList.length === 0 || allowList.includes(value);
+}
+
+/**
+ * 判断工具是否允许注册
+ * @param policy 访问策略
+ * @param toolName 工具名称
+ */
+export function isToolAllowed(policy: AccessPolicy, toolName: string) {
+  if (policy.readOnly && !READ_ONLY_TOOLS.has(toolName)) {
+    return false;
+  }
+  return isListed(toolName, policy.toolAllowList, policy.toolDenyList);
+}
+
+/**
+ * 判断守护进程是否允许访问
+ * @param policy 访问策略
+ * @param daemonId 守护进程ID
+ */
+export function isDaemonAllowed(policy: AccessPolicy, daemonId: string) {
+  return isListed(daemonId, policy.daemonAllowList, policy.daemonDenyList);
+}
+
+/**
+ * 判断实例是否允许访问
+ * 实例所在的守护进程也必须允许访问
+ * @param policy 访问策略
+ * @param daemonId 守护进程ID
+ * @param instanceId 实例ID
+ */
+export function isInstanceAllowed(
+  policy: AccessPolicy,
+  daemonId: string,
+  instanceId: string
+) {
+  return (
+    isDaemonAllowed(policy, daemonId) &&
+    isListed(instanceId, policy.instanceAllowList, policy.instanceDenyList)
+  );
+}
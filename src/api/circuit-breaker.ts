@@ -0,0 +1,143 @@
+/**
+ * 熔断器状态
+ * - closed: 正常发送请求
+ * - open: 连续失败次数达到阈值，冷却期内直接失败，不再发送请求
+ * - half-open: 冷却期已过，允许一个试探请求，成功后恢复为closed，失败后重新进入open
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * 熔断器的当前状态
+ */
+export interface CircuitStatus {
+  state: CircuitState;
+
+  /**
+   * 连续失败次数
+   */
+  failures: number;
+
+  /**
+   * 熔断时间，ISO 8601格式
+   */
+  openedAt?: string;
+
+  /**
+   * 允许试探请求的时间，ISO 8601格式
+   */
+  retryAt?: string;
+
+  /**
+   * 最后一次失败的错误信息
+   */
+  lastError?: string;
+}
+
+/**
+ * 单个键的熔断记录
+ */
+interface Circuit {
+  failures: number;
+  openedAt?: number;
+  probing: boolean;
+  lastError?: string;
+}
+
+/**
+ * 熔断器
+ * 按键（守护进程ID）分别统计连续失败次数，在守护进程已知离线时快速失败，避免每次调用都等待超时
+ */
+export class CircuitBreaker {
+  private circuits = new Map<string, Circuit>();
+  private threshold: number;
+  private cooldownMs: number;
+
+  /**
+   * 创建熔断器
+   * @param threshold 触发熔断的连续失败次数，0表示不熔断
+   * @param cooldownSeconds 熔断后允许试探请求前的冷却时间（秒）
+   */
+  constructor(threshold: number, cooldownSeconds: number) {
+    this.threshold = threshold;
+    this.cooldownMs = cooldownSeconds * 1000;
+  }
+
+  /**
+   * 检查是否允许发送请求
+   * 冷却期已过时只放行一个试探请求，其余请求在试探结束前仍然快速失败
+   * @param key 守护进程ID
+   * @returns 允许发送请求时返回true
+   */
+  tryAcquire(key: string): boolean {
+    const circuit = this.circuits.get(key);
+    if (!circuit || circuit.openedAt === undefined) {
+      return true;
+    }
+    if (circuit.probing || Date.now() - circuit.openedAt < this.cooldownMs) {
+      return false;
+    }
+    circuit.probing = true;
+    return true;
+  }
+
+  /**
+   * 记录请求成功，恢复为closed状态
+   * @param key 守护进程ID
+   */
+  recordSuccess(key: string) {
+    this.circuits.delete(key);
+  }
+
+  /**
+   * 记录请求失败
+   * 连续失败次数达到阈值或试探请求失败时进入open状态
+   * @param key 守护进程ID
+   * @param error 错误信息
+   */
+  recordFailure(key: string, error: string) {
+    if (this.threshold <= 0) {
+      return;
+    }
+    const circuit = this.circuits.get(key) ?? { failures: 0, probing: false };
+    circuit.failures++;
+    circuit.lastError = error;
+    if (circuit.probing || circuit.failures >= this.threshold) {
+      circuit.openedAt = Date.now();
+      circuit.probing = false;
+    }
+    this.circuits.set(key, circuit);
+  }
+
+  /**
+   * 结束试探请求但不改变状态，用于与守护进程状态无关的失败，例如实例不存在
+   * @param key 守护进程ID
+   */
+  release(key: string) {
+    const circuit = this.circuits.get(key);
+    if (circuit) {
+      circuit.probing = false;
+    }
+  }
+
+  /**
+   * 获取熔断器的当前状态
+   * @param key 守护进程ID
+   */
+  getStatus(key: string): CircuitStatus {
+    const circuit = this.circuits.get(key);
+    if (!circuit) {
+      return { state: 'closed', failures: 0 };
+    }
+    if (circuit.openedAt === undefined) {
+      return { state: 'closed', failures: circuit.failures, lastError: circuit.lastError };
+    }
+    const retryAt = circuit.openedAt + this.cooldownMs;
+    return {
+      state: circuit.probing || Date.now() >= retryAt ? 'half-open' : 'open',
+      failures: circuit.failures,
+      openedAt: new Date(circuit.openedAt).toISOString(),
+      retryAt: new Date(retryAt).toISOString(),
+      lastError: circuit.lastError
+    };
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * MCSManager API错误
+ * 所有API调用失败都会抛出该类或其子类，错误信息说明失败原因和处理建议
+ */
+export class MCSManagerAPIError extends Error {
+  /**
+   * 面板返回的状态码，网络错误时为undefined
+   */
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'MCSManagerAPIError';
+    this.status = status;
+  }
+}
+
+/**
+ * API密钥无效
+ */
+export class AuthenticationError extends MCSManagerAPIError {
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * API密钥对应的用户没有权限执行操作
+ */
+export class PermissionDeniedError extends MCSManagerAPIError {
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+/**
+ * 守护进程、实例或文件不存在
+ */
+export class NotFoundError extends MCSManagerAPIError {
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * 守护进程离线或面板无法连接守护进程
+ */
+export class DaemonOfflineError extends MCSManagerAPIError {
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = 'DaemonOfflineError';
+  }
+}
+
+/**
+ * 守护进程连续失败后被熔断，请求没有发送到面板
+ */
+export class CircuitOpenError extends DaemonOfflineError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * 无法连接面板
+ */
+export class NetworkError extends MCSManagerAPIError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * 面板在超时时间内没有响应，通常是面板或守护进程卡住
+ */
+export class RequestTimeoutError extends NetworkError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+/**
+ * 面板的响应不符合预期的格式，通常是面板版本不受支持
+ */
+export class InvalidResponseError extends MCSManagerAPIError {
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = 'InvalidResponseError';
+  }
+}
+
+/**
+ * 面板报告守护进程离线时的错误信息
+ */
+const DAEMON_OFFLINE_PATTERN = /offline|not available|unavailable|ECONNREFUSED|离线|无法连接|未连接/i;
+
+/**
+ * 面板报告对象不存在时的错误信息
+ */
+const NOT_FOUND_PATTERN = /not found|does not exist|ENOENT|不存在/i;
+
+/**
+ * 根据面板返回的状态码和错误信息创建对应的错误
+ * 面板对多种失败都返回500，因此同时根据错误信息判断错误类型
+ * @param action 失败的操作，例如：get instance details
+ * @param status 面板返回的状态码
+ * @param detail 面板返回的错误信息
+ */
+export function createAPIError(action: string, status: number, detail: string): MCSManagerAPIError {
+  const reason = detail ? `: ${detail}` : '';
+  if (status === 401) {
+    return new AuthenticationError(
+      `Failed to ${action}: the panel rejected the API key (status ${status}). Check the API key configured for this panel.`,
+      status
+    );
+  }
+  if (status === 403) {
+    return new PermissionDeniedError(
+      `Failed to ${action}: permission denied (status ${status})${reason}. The panel user of this API key may not have access to this daemon or instance.`,
+      status
+    );
+  }
+  if (DAEMON_OFFLINE_PATTERN.test(detail)) {
+    return new DaemonOfflineError(
+      `Failed to ${action}: the daemon is offline or unreachable (status ${status})${reason}. Check the daemon status with get-daemons.`,
+      status
+    );
+  }
+  if (status === 404 || NOT_FOUND_PATTERN.test(detail)) {
+    return new NotFoundError(
+      `Failed to ${action}: not found (status ${status})${reason}. Check the daemonId, instanceId or path.`,
+      status
+    );
+  }
+  return new MCSManagerAPIError(`Failed to ${action}: status ${status}${reason}`, status);
+}
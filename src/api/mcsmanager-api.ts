@@ -1,35 +1,453 @@
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { z } from 'zod';
+import { CircuitBreaker, CircuitStatus } from './circuit-breaker.js';
+import {
+  CircuitOpenError,
+  DaemonOfflineError,
+  InvalidResponseError,
+  MCSManagerAPIError,
+  NetworkError,
+  NotFoundError,
+  RequestTimeoutError,
+  createAPIError
+} from './errors.js';
+import { ResponseCache } from './response-cache.js';
+import {
+  anySchema,
+  createdInstanceSchema,
+  FileTransfer,
+  fileListSchema,
+  fileTransferSchema,
+  instancePageSchema,
+  instanceSchema,
+  overviewSchema,
+  responseEnvelopeSchema,
+  scheduleListSchema,
+  textSchema,
+  userPageSchema
+} from './schemas.js';
+
+/**
+ * 实例列表过滤条件
+ */
+export interface InstanceFilters {
+  /**
+   * 实例名称，模糊匹配
+   */
+  instanceName?: string;
+
+  /**
+   * 实例状态码
+   */
+  status?: number;
+
+  /**
+   * 实例标签
+   */
+  tag?: string[];
+}
+
+/**
+ * 实例配置
+ * 创建实例时未提供的字段由面板使用默认值
+ */
+export interface InstanceConfigInput {
+  nickname?: string;
+  type?: string;
+  cwd?: string;
+  startCommand?: string;
+  stopCommand?: string;
+  ie?: string;
+  oe?: string;
+  fileCode?: string;
+  processType?: string;
+  tag?: string[];
+  [key: string]: unknown;
+}
+
+/**
+ * 用户列表过滤条件
+ */
+export interface UserFilters {
+  /**
+   * 用户名，模糊匹配
+   */
+  userName?: string;
+
+  /**
+   * 权限等级，1为普通用户，10为管理员，-1为已封禁
+   */
+  role?: number;
+}
+
+/**
+ * 用户可以访问的实例
+ */
+export interface UserInstance {
+  instanceUuid: string;
+  daemonId: string;
+}
+
+/**
+ * 需要修改的用户配置
+ */
+export interface UserConfigInput {
+  permission?: number;
+  instances?: UserInstance[];
+  [key: string]: unknown;
+}
+
+/**
+ * 计划任务
+ */
+export interface ScheduleInput {
+  /**
+   * 任务名称，同一实例中唯一
+   */
+  name: string;
+
+  /**
+   * 执行次数，-1表示不限
+   */
+  count: number;
+
+  /**
+   * 间隔秒数或cron表达式，取决于type
+   */
+  time: string;
+
+  /**
+   * 执行的操作，例如command、start、stop、restart、kill
+   */
+  action: string;
+
+  /**
+   * 任务类型，1为间隔执行，2为周期执行，3为指定时间执行
+   */
+  type: number;
+
+  /**
+   * 操作参数，action为command时是要发送的命令
+   */
+  payload: string;
+}
+
+/**
+ * API客户端选项
+ */
+export interface MCSManagerAPIOptions {
+  /**
+   * 请求超时时间（秒），默认30
+   */
+  timeoutSeconds?: number;
+
+  /**
+   * 只读请求失败后的最大重试次数，默认2
+   */
+  retries?: number;
+
+  /**
+   * 第一次重试前的等待时间（毫秒），之后每次重试翻倍，默认500
+   */
+  retryDelayMs?: number;
+
+  /**
+   * 触发守护进程熔断的连续失败次数，0表示不熔断，默认3
+   */
+  circuitBreakerThreshold?: number;
+
+  /**
+   * 熔断后的冷却时间（秒），默认30
+   */
+  circuitBreakerCooldownSeconds?: number;
+
+  /**
+   * 概览、实例列表、实例详情和文件列表的缓存时间（秒），0表示不缓存，默认5
+   */
+  cacheTtlSeconds?: number;
+}
+
+/**
+ * 读取可缓存数据时的选项
+ */
+export interface CacheOptions {
+  /**
+   * 是否忽略缓存，从面板获取最新数据
+   */
+  fresh?: boolean;
+}
+
+/**
+ * 单个请求的选项
+ */
+interface RequestOptions {
+  /**
+   * 请求访问的守护进程，用于熔断
+   */
+  daemonId?: string;
+
+  /**
+   * 请求是否可以安全重试，只有不修改面板状态的请求可以重试
+   */
+  retry?: boolean;
+}
+
+/**
+ * 可以重试的HTTP状态码，通常是面板前的反向代理暂时不可用
+ */
+const RETRYABLE_STATUS = [502, 503, 504];
+
+/**
+ * 请求失败后是否可以重试
+ * 网络错误、超时和网关错误可能是暂时的；面板明确返回的错误（例如实例不存在）重试也不会成功
+ * @param error 请求错误
+ */
+function isRetryable(error: unknown): boolean {
+  if (error instanceof NetworkError) {
+    return true;
+  }
+  return error instanceof MCSManagerAPIError && error.status !== undefined && RETRYABLE_STATUS.includes(error.status);
+}
+
+/**
+ * 等待一段时间
+ * @param ms 毫秒
+ */
+function sleep(ms: number) {
+  return new Promise<void>((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * 压缩和解压缩操作的类型
+ */
+const COMPRESS_TYPE = { compress: 1, decompress: 2 };
+
+/**
+ * 面板响应的错误信息
+ * @param data 响应体中的data字段
+ */
+function describeError(data: unknown): string {
+  if (data === undefined || data === null || data === '') {
+    return '';
+  }
+  const text = typeof data === 'string' ? data : JSON.stringify(data);
+  return text.length > 300 ? `${text.slice(0, 300)}...` : text;
+}
 
 /**
  * MCSManager API客户端
  * 用于与MCSManager API进行通信
+ * 所有方法都会校验面板的响应格式并返回响应中的data字段，失败时抛出MCSManagerAPIError及其子类
+ * 概览、实例列表、实例详情和文件列表会短暂缓存，修改面板状态的方法会使受影响的缓存失效
  */
 export class MCSManagerAPI {
   private client: AxiosInstance;
+  private baseURL: string;
   private apiKey: string;
+  private timeoutMs: number;
+  private retries: number;
+  private retryDelayMs: number;
+  private breaker: CircuitBreaker;
+  private cache: ResponseCache;
+  private responseListeners: Array<(status: number) => void> = [];
 
   /**
    * 创建MCSManager API客户端
    * @param baseURL MCSManager面板的基础URL
    * @param apiKey 用户的API密钥
+   * @param options 超时、重试和熔断选项
    */
-  constructor(baseURL: string, apiKey: string) {
+  constructor(baseURL: string, apiKey: string, options: MCSManagerAPIOptions = {}) {
+    this.baseURL = baseURL;
     this.apiKey = apiKey;
+    this.timeoutMs = (options.timeoutSeconds ?? 30) * 1000;
+    this.retries = options.retries ?? 2;
+    this.retryDelayMs = options.retryDelayMs ?? 500;
+    this.breaker = new CircuitBreaker(options.circuitBreakerThreshold ?? 3, options.circuitBreakerCooldownSeconds ?? 30);
+    this.cache = new ResponseCache(options.cacheTtlSeconds ?? 5);
     this.client = axios.create({
       baseURL,
+      timeout: this.timeoutMs,
       headers: {
         'Content-Type': 'application/json; charset=utf-8',
         'X-Requested-With': 'XMLHttpRequest'
       }
     });
+
+    // 面板在响应体的status字段中返回业务状态码，请求失败时使用HTTP状态码
+    this.client.interceptors.response.use(
+      (response) => {
+        this.notifyResponse(response.data?.status ?? response.status);
+        return response;
+      },
+      (error) => {
+        if (error.response) {
+          this.notifyResponse(error.response.data?.status ?? error.response.status);
+        }
+        return Promise.reject(error);
+      }
+    );
+  }
+
+  /**
+   * 监听面板响应的状态码
+   * @param listener 监听函数
+   */
+  onResponse(listener: (status: number) => void) {
+    this.responseListeners.push(listener);
+  }
+
+  /**
+   * 通知响应状态码监听函数
+   * @param status 状态码
+   */
+  private notifyResponse(status: number) {
+    for (const listener of this.responseListeners) {
+      listener(status);
+    }
+  }
+
+  /**
+   * 获取守护进程的熔断状态
+   * @param daemonId 守护进程ID
+   */
+  getCircuitStatus(daemonId: string): CircuitStatus {
+    return this.breaker.getStatus(daemonId);
+  }
+
+  /**
+   * 执行修改面板状态的请求，请求结束后（无论成功与否）使受影响的缓存失效
+   * @param keys 受影响的缓存键前缀
+   * @param send 发送请求
+   */
+  private async mutate<T>(keys: string[], send: () => Promise<T>): Promise<T> {
+    try {
+      return await send();
+    } finally {
+      this.cache.invalidate(...keys);
+    }
+  }
+
+  /**
+   * 实例状态变化时受影响的缓存：概览中的运行数量、实例列表和实例详情
+   * @param daemonId 守护进程ID
+   * @param instanceUuid 实例ID
+   */
+  private instanceKeys(daemonId: string, instanceUuid: string) {
+    return ['overview', `instances:${daemonId}`, `instance:${daemonId}:${instanceUuid}`];
+  }
+
+  /**
+   * 发送请求并更新守护进程的熔断状态
+   * 重试结束后才计入一次成功或失败，一次请求的多次重试不会重复计数。
+   * 只有守护进程离线和超时计为失败；守护进程返回了明确的结果（包括对象不存在）说明它可以访问
+   * @param action 操作描述，用于错误信息
+   * @param schema 响应中data字段的格式
+   * @param options 请求选项
+   * @param send 发送请求
+   */
+  private async request<T extends z.ZodTypeAny>(action: string, schema: T, options: RequestOptions, send: () => Promise<AxiosResponse>): Promise<z.output<T>> {
+    const { daemonId } = options;
+    if (!daemonId) {
+      return this.executeWithRetry(action, schema, options, send);
+    }
+
+    if (!this.breaker.tryAcquire(daemonId)) {
+      const status = this.breaker.getStatus(daemonId);
+      throw new CircuitOpenError(
+        `Failed to ${action}: daemon ${daemonId} failed ${status.failures} consecutive requests (last error: ${status.lastError}), so requests to it are paused until ${status.retryAt}. Check the daemon status with get-daemons.`
+      );
+    }
+    try {
+      const result = await this.executeWithRetry(action, schema, options, send);
+      this.breaker.recordSuccess(daemonId);
+      return result;
+    } catch (error) {
+      if (error instanceof DaemonOfflineError || error instanceof RequestTimeoutError) {
+        this.breaker.recordFailure(daemonId, error.message);
+      } else if (error instanceof NotFoundError) {
+        this.breaker.recordSuccess(daemonId);
+      } else {
+        this.breaker.release(daemonId);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 发送请求并校验响应
+   * 可以重试的请求在网络错误、超时和网关错误时按指数退避重试
+   * @param action 操作描述，用于错误信息
+   * @param schema 响应中data字段的格式
+   * @param options 请求选项
+   * @param send 发送请求
+   */
+  private async executeWithRetry<T extends z.ZodTypeAny>(action: string, schema: T, options: RequestOptions, send: () => Promise<AxiosResponse>): Promise<z.output<T>> {
+    const retries = options.retry ? this.retries : 0;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.execute(action, schema, send);
+      } catch (error) {
+        if (attempt >= retries || !isRetryable(error)) {
+          throw error;
+        }
+        await sleep(this.retryDelayMs * 2 ** attempt);
+      }
+    }
+  }
+
+  /**
+   * 发送一次请求并校验响应
+   * @param action 操作描述，用于错误信息
+   * @param schema 响应中data字段的格式
+   * @param send 发送请求
+   */
+  private async execute<T extends z.ZodTypeAny>(action: string, schema: T, send: () => Promise<AxiosResponse>): Promise<z.output<T>> {
+    let body: unknown;
+    try {
+      body = (await send()).data;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response) {
+        const data: unknown = error.response.data;
+        const envelope = responseEnvelopeSchema.safeParse(data);
+        throw envelope.success
+          ? createAPIError(action, envelope.data.status, describeError(envelope.data.data ?? data))
+          : createAPIError(action, error.response.status, describeError(data));
+      }
+      if (axios.isAxiosError(error) && (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT')) {
+        throw new RequestTimeoutError(`Failed to ${action}: the panel at ${this.baseURL} did not respond within ${this.timeoutMs / 1000} seconds. The panel or daemon may be overloaded or stuck.`);
+      }
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new NetworkError(`Failed to ${action}: cannot reach the panel at ${this.baseURL} (${reason}). Check that the panel is running and the URL is correct.`);
+    }
+
+    const envelope = responseEnvelopeSchema.safeParse(body);
+    if (!envelope.success) {
+      throw new InvalidResponseError(`Failed to ${action}: the panel returned an unexpected response. Check that the URL points to an MCSManager panel.`);
+    }
+    const { status, data } = envelope.data;
+    if (status !== 200) {
+      throw createAPIError(action, status, describeError(data));
+    }
+
+    const result = schema.safeParse(data);
+    if (!result.success) {
+      const issues = result.error.issues
+        .slice(0, 3)
+        .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; ');
+      throw new InvalidResponseError(`Failed to ${action}: unexpected response format from the panel (${issues}). The panel version may not be supported.`, status);
+    }
+    return result.data;
   }
 
   /**
    * 获取守护进程列表
    */
   async getDaemons() {
-    const response = await this.client.get(`/api/service/remote_services_system?apikey=${this.apiKey}`);
-    return response.data;
+    return this.request('get daemons', z.array(anySchema), { retry: true }, () =>
+      this.client.get(`/api/service/remote_services_system?apikey=${this.apiKey}`)
+    );
   }
 
   /**
@@ -37,24 +455,77 @@ export class MCSManagerAPI {
    * @param daemonId 守护进程ID
    * @param page 页码
    * @param pageSize 每页大小
+   * @param filters 过滤条件
+   * @param options 缓存选项
    */
-  async getInstances(daemonId: string, page: number = 1, pageSize: number = 10) {
-    const response = await this.client.get(
-      `/api/service/remote_service_instances?daemonId=${daemonId}&page=${page}&page_size=${pageSize}&apikey=${this.apiKey}&instance_name=&status=&tag=[]`
-    );
-    return response.data;
+  async getInstances(daemonId: string, page: number = 1, pageSize: number = 10, filters: InstanceFilters = {}, options: CacheOptions = {}) {
+    const instanceName = encodeURIComponent(filters.instanceName ?? '');
+    const status = filters.status ?? '';
+    const tag = encodeURIComponent(JSON.stringify(filters.tag ?? []));
+    const key = `instances:${daemonId}:${page}:${pageSize}:${JSON.stringify(filters)}`;
+    return this.cache.get(key, () => this.request('get instances', instancePageSchema, { daemonId, retry: true }, () =>
+      this.client.get(
+        `/api/service/remote_service_instances?daemonId=${daemonId}&page=${page}&page_size=${pageSize}&apikey=${this.apiKey}&instance_name=${instanceName}&status=${status}&tag=${tag}`
+      )
+    ), options.fresh);
   }
 
   /**
    * 获取实例详情
    * @param instanceUuid 实例ID
    * @param daemonId 守护进程ID
+   * @param options 缓存选项
    */
-  async getInstanceDetail(instanceUuid: string, daemonId: string) {
-    const response = await this.client.get(
-      `/api/instance?uuid=${instanceUuid}&daemonId=${daemonId}&apikey=${this.apiKey}`
-    );
-    return response.data;
+  async getInstanceDetail(instanceUuid: string, daemonId: string, options: CacheOptions = {}) {
+    return this.cache.get(`instance:${daemonId}:${instanceUuid}`, () => this.request('get instance details', instanceSchema, { daemonId, retry: true }, () =>
+      this.client.get(
+        `/api/instance?uuid=${instanceUuid}&daemonId=${daemonId}&apikey=${this.apiKey}`
+      )
+    ), options.fresh);
+  }
+
+  /**
+   * 创建实例
+   * @param daemonId 守护进程ID
+   * @param config 实例配置
+   */
+  async createInstance(daemonId: string, config: InstanceConfigInput) {
+    return this.mutate(['overview', `instances:${daemonId}`], () => this.request('create instance', createdInstanceSchema, { daemonId }, () =>
+      this.client.post(
+        `/api/instance?daemonId=${daemonId}&apikey=${this.apiKey}`,
+        config
+      )
+    ));
+  }
+
+  /**
+   * 更新实例配置
+   * @param instanceUuid 实例ID
+   * @param daemonId 守护进程ID
+   * @param config 需要修改的配置项
+   */
+  async updateInstanceConfig(instanceUuid: string, daemonId: string, config: InstanceConfigInput) {
+    return this.mutate([`instances:${daemonId}`, `instance:${daemonId}:${instanceUuid}`], () => this.request('update instance config', anySchema, { daemonId }, () =>
+      this.client.put(
+        `/api/instance?uuid=${instanceUuid}&daemonId=${daemonId}&apikey=${this.apiKey}`,
+        config
+      )
+    ));
+  }
+
+  /**
+   * 删除实例
+   * @param instanceUuid 实例ID
+   * @param daemonId 守护进程ID
+   * @param deleteFile 是否同时删除实例文件
+   */
+  async deleteInstance(instanceUuid: string, daemonId: string, deleteFile: boolean) {
+    return this.mutate([...this.instanceKeys(daemonId, instanceUuid), `files:${daemonId}:${instanceUuid}`], () => this.request('delete instance', anySchema, { daemonId }, () =>
+      this.client.delete(
+        `/api/instance?daemonId=${daemonId}&apikey=${this.apiKey}`,
+        { data: { uuids: [instanceUuid], deleteFile } }
+      )
+    ));
   }
 
   /**
@@ -63,11 +534,12 @@ export class MCSManagerAPI {
    * @param daemonId 守护进程ID
    */
   async startInstance(instanceUuid: string, daemonId: string) {
-    const response = await this.client.post(
-      `/api/instance/multi_start?apikey=${this.apiKey}`,
-      [{ instanceUuid, daemonId }]
-    );
-    return response.data;
+    return this.mutate(this.instanceKeys(daemonId, instanceUuid), () => this.request('start instance', anySchema, { daemonId }, () =>
+      this.client.post(
+        `/api/instance/multi_start?apikey=${this.apiKey}`,
+        [{ instanceUuid, daemonId }]
+      )
+    ));
   }
 
   /**
@@ -76,11 +548,12 @@ export class MCSManagerAPI {
    * @param daemonId 守护进程ID
    */
   async stopInstance(instanceUuid: string, daemonId: string) {
-    const response = await this.client.post(
-      `/api/instance/multi_stop?apikey=${this.apiKey}`,
-      [{ instanceUuid, daemonId }]
-    );
-    return response.data;
+    return this.mutate(this.instanceKeys(daemonId, instanceUuid), () => this.request('stop instance', anySchema, { daemonId }, () =>
+      this.client.post(
+        `/api/instance/multi_stop?apikey=${this.apiKey}`,
+        [{ instanceUuid, daemonId }]
+      )
+    ));
   }
 
   /**
@@ -89,11 +562,12 @@ export class MCSManagerAPI {
    * @param daemonId 守护进程ID
    */
   async restartInstance(instanceUuid: string, daemonId: string) {
-    const response = await this.client.post(
-      `/api/instance/multi_restart?apikey=${this.apiKey}`,
-      [{ instanceUuid, daemonId }]
-    );
-    return response.data;
+    return this.mutate(this.instanceKeys(daemonId, instanceUuid), () => this.request('restart instance', anySchema, { daemonId }, () =>
+      this.client.post(
+        `/api/instance/multi_restart?apikey=${this.apiKey}`,
+        [{ instanceUuid, daemonId }]
+      )
+    ));
   }
 
   /**
@@ -102,11 +576,12 @@ export class MCSManagerAPI {
    * @param daemonId 守护进程ID
    */
   async killInstance(instanceUuid: string, daemonId: string) {
-    const response = await this.client.post(
-      `/api/instance/multi_kill?apikey=${this.apiKey}`,
-      [{ instanceUuid, daemonId }]
-    );
-    return response.data;
+    return this.mutate(this.instanceKeys(daemonId, instanceUuid), () => this.request('kill instance', anySchema, { daemonId }, () =>
+      this.client.post(
+        `/api/instance/multi_kill?apikey=${this.apiKey}`,
+        [{ instanceUuid, daemonId }]
+      )
+    ));
   }
 
   /**
@@ -116,10 +591,66 @@ export class MCSManagerAPI {
    * @param command 命令
    */
   async sendCommand(instanceUuid: string, daemonId: string, command: string) {
-    const response = await this.client.get(
-      `/api/protected_instance/command?uuid=${instanceUuid}&daemonId=${daemonId}&command=${encodeURIComponent(command)}&apikey=${this.apiKey}`
+    return this.mutate(this.instanceKeys(daemonId, instanceUuid), () => this.request('send command', anySchema, { daemonId }, () =>
+      this.client.get(
+        `/api/protected_instance/command?uuid=${instanceUuid}&daemonId=${daemonId}&command=${encodeURIComponent(command)}&apikey=${this.apiKey}`
+      )
+    ));
+  }
+
+  /**
+   * 获取实例最近的控制台输出日志
+   * @param instanceUuid 实例ID
+   * @param daemonId 守护进程ID
+   */
+  async getOutputLog(instanceUuid: string, daemonId: string) {
+    return this.request('get console output', textSchema, { daemonId, retry: true }, () =>
+      this.client.get(
+        `/api/protected_instance/outputlog?uuid=${instanceUuid}&daemonId=${daemonId}&apikey=${this.apiKey}`
+      )
+    );
+  }
+
+  /**
+   * 获取实例的计划任务列表
+   * @param instanceUuid 实例ID
+   * @param daemonId 守护进程ID
+   */
+  async getSchedules(instanceUuid: string, daemonId: string) {
+    return this.request('get schedules', scheduleListSchema, { daemonId, retry: true }, () =>
+      this.client.get(
+        `/api/protected_schedule?uuid=${instanceUuid}&daemonId=${daemonId}&apikey=${this.apiKey}`
+      )
+    );
+  }
+
+  /**
+   * 创建计划任务
+   * @param instanceUuid 实例ID
+   * @param daemonId 守护进程ID
+   * @param schedule 计划任务
+   */
+  async createSchedule(instanceUuid: string, daemonId: string, schedule: ScheduleInput) {
+    return this.request('create schedule', anySchema, { daemonId }, () =>
+      this.client.post(
+        `/api/protected_schedule?uuid=${instanceUuid}&daemonId=${daemonId}&apikey=${this.apiKey}`,
+        schedule
+      )
+    );
+  }
+
+  /**
+   * 删除计划任务
+   * @param instanceUuid 实例ID
+   * @param daemonId 守护进程ID
+   * @param name 任务名称
+   */
+  async deleteSchedule(instanceUuid: string, daemonId: string, name: string) {
+    return this.request('delete schedule', anySchema, { daemonId }, () =>
+      this.client.delete(
+        `/api/protected_schedule?uuid=${instanceUuid}&daemonId=${daemonId}&task_name=${encodeURIComponent(name)}&apikey=${this.apiKey}`
+      )
     );
-    return response.data;
   }
 
   /**
@@ -129,12 +660,15 @@ export class MCSManagerAPI {
    * @param target 目标路径
    * @param page 页码
    * @param pageSize 每页大小
+   * @param options 缓存选项
    */
-  async getFileList(instanceUuid: string, daemonId: string, target: string = '', page: number = 0, pageSize: number = 100) {
-    const response = await this.client.get(
-      `/api/files/list?uuid=${instanceUuid}&daemonId=${daemonId}&target=${encodeURIComponent(target)}&page=${page}&page_size=${pageSize}&apikey=${this.apiKey}`
-    );
-    return response.data;
+  async getFileList(instanceUuid: string, daemonId: string, target: string = '', page: number = 0, pageSize: number = 100, options: CacheOptions = {}) {
+    const key = `files:${daemonId}:${instanceUuid}:${page}:${pageSize}:${target}`;
+    return this.cache.get(key, () => this.request('get file list', fileListSchema, { daemonId, retry: true }, () =>
+      this.client.get(
+        `/api/files/list?uuid=${instanceUuid}&daemonId=${daemonId}&target=${encodeURIComponent(target)}&page=${page}&page_size=${pageSize}&apikey=${this.apiKey}`
+      )
+    ), options.fresh);
   }
 
   /**
@@ -144,11 +678,13 @@ export class MCSManagerAPI {
    * @param target 目标文件路径
    */
   async getFileContent(instanceUuid: string, daemonId: string, target: string) {
-    const response = await this.client.put(
-      `/api/files/?uuid=${instanceUuid}&daemonId=${daemonId}&apikey=${this.apiKey}`,
-      { target }
+    // 面板使用PUT读取文件内容，请求不修改文件，作为例外允许重试
+    return this.request('get file content', textSchema, { daemonId, retry: true }, () =>
+      this.client.put(
+        `/api/files/?uuid=${instanceUuid}&daemonId=${daemonId}&apikey=${this.apiKey}`,
+        { target }
+      )
     );
-    return response.data;
   }
 
   /**
@@ -159,30 +695,264 @@ export class MCSManagerAPI {
    * @param text 文件内容
    */
   async updateFileContent(instanceUuid: string, daemonId: string, target: string, text: string) {
-    const response = await this.client.put(
-      `/api/files/?uuid=${instanceUuid}&daemonId=${daemonId}&apikey=${this.apiKey}`,
-      { target, text }
+    return this.mutate([`files:${daemonId}:${instanceUuid}`], () => this.request('update file', anySchema, { daemonId }, () =>
+      this.client.put(
+        `/api/files/?uuid=${instanceUuid}&daemonId=${daemonId}&apikey=${this.apiKey}`,
+        { target, text }
+      )
+    ));
+  }
+
+  /**
+   * 创建目录
+   * @param instanceUuid 实例ID
+   * @param daemonId 守护进程ID
+   * @param target 目录路径
+   */
+  async createDirectory(instanceUuid: string, daemonId: string, target: string) {
+    return this.mutate([`files:${daemonId}:${instanceUuid}`], () => this.request('create directory', anySchema, { daemonId }, () =>
+      this.client.post(
+        `/api/files/mkdir?uuid=${instanceUuid}&daemonId=${daemonId}&apikey=${this.apiKey}`,
+        { target }
+      )
+    ));
+  }
+
+  /**
+   * 删除文件或目录
+   * @param instanceUuid 实例ID
+   * @param daemonId 守护进程ID
+   * @param targets 文件或目录路径
+   */
+  async deleteFiles(instanceUuid: string, daemonId: string, targets: string[]) {
+    return this.mutate([`files:${daemonId}:${instanceUuid}`], () => this.request('delete files', anySchema, { daemonId }, () =>
+      this.client.delete(
+        `/api/files?uuid=${instanceUuid}&daemonId=${daemonId}&apikey=${this.apiKey}`,
+        { data: { targets } }
+      )
+    ));
+  }
+
+  /**
+   * 移动或重命名文件
+   * @param instanceUuid 实例ID
+   * @param daemonId 守护进程ID
+   * @param source 源路径
+   * @param destination 目标路径
+   */
+  async moveFile(instanceUuid: string, daemonId: string, source: string, destination: string) {
+    return this.mutate([`files:${daemonId}:${instanceUuid}`], () => this.request('move file', anySchema, { daemonId }, () =>
+      this.client.put(
+        `/api/files/move?uuid=${instanceUuid}&daemonId=${daemonId}&apikey=${this.apiKey}`,
+        { targets: [[source, destination]] }
+      )
+    ));
+  }
+
+  /**
+   * 复制文件或目录
+   * @param instanceUuid 实例ID
+   * @param daemonId 守护进程ID
+   * @param source 源路径
+   * @param destination 目标路径
+   */
+  async copyFile(instanceUuid: string, daemonId: string, source: string, destination: string) {
+    return this.mutate([`files:${daemonId}:${instanceUuid}`], () => this.request('copy file', anySchema, { daemonId }, () =>
+      this.client.post(
+        `/api/files/copy?uuid=${instanceUuid}&daemonId=${daemonId}&apikey=${this.apiKey}`,
+        { targets: [[source, destination]] }
+      )
+    ));
+  }
+
+  /**
+   * 将文件和目录压缩为zip文件
+   * @param instanceUuid 实例ID
+   * @param daemonId 守护进程ID
+   * @param archive zip文件路径
+   * @param targets 要压缩的文件和目录路径
+   * @param code 文件名编码
+   */
+  async compressFiles(instanceUuid: string, daemonId: string, archive: string, targets: string[], code: string = 'utf-8') {
+    return this.mutate([`files:${daemonId}:${instanceUuid}`], () => this.request('compress files', anySchema, { daemonId }, () =>
+      this.client.post(
+        `/api/files/compress?uuid=${instanceUuid}&daemonId=${daemonId}&apikey=${this.apiKey}`,
+        { type: COMPRESS_TYPE.compress, source: archive, targets, code }
+      )
+    ));
+  }
+
+  /**
+   * 解压zip文件
+   * @param instanceUuid 实例ID
+   * @param daemonId 守护进程ID
+   * @param archive zip文件路径
+   * @param destination 解压到的目录
+   * @param code 文件名编码
+   */
+  async extractArchive(instanceUuid: string, daemonId: string, archive: string, destination: string, code: string = 'utf-8') {
+    return this.mutate([`files:${daemonId}:${instanceUuid}`], () => this.request('extract archive', anySchema, { daemonId }, () =>
+      this.client.post(
+        `/api/files/compress?uuid=${instanceUuid}&daemonId=${daemonId}&apikey=${this.apiKey}`,
+        { type: COMPRESS_TYPE.decompress, source: archive, targets: destination, code }
+      )
+    ));
+  }
+
+  /**
+   * 上传文件
+   * 先从面板获取上传凭证，再将文件直接上传到守护进程
+   * @param instanceUuid 实例ID
+   * @param daemonId 守护进程ID
+   * @param directory 上传到的目录
+   * @param fileName 文件名
+   * @param data 文件内容
+   */
+  async uploadFile(instanceUuid: string, daemonId: string, directory: string, fileName: string, data: Buffer) {
+    return this.mutate([`files:${daemonId}:${instanceUuid}`], async () => {
+      const transfer = await this.request('upload file', fileTransferSchema, { daemonId }, () =>
+        this.client.post(
+          `/api/files/upload?upload_dir=${encodeURIComponent(directory)}&uuid=${instanceUuid}&daemonId=${daemonId}&apikey=${this.apiKey}`
+        )
+      );
+      const form = new FormData();
+      form.append('file', new Blob([new Uint8Array(data)]), fileName);
+      await this.transfer('upload file', () =>
+        axios.post(this.transferURL(transfer, `/upload/${transfer.password}`), form, {
+          timeout: this.timeoutMs,
+          maxBodyLength: Infinity
+        })
+      );
+    });
+  }
+
+  /**
+   * 下载文件
+   * 先从面板获取下载凭证，再直接从守护进程下载文件
+   * @param instanceUuid 实例ID
+   * @param daemonId 守护进程ID
+   * @param target 文件路径
+   * @param maxBytes 允许下载的最大字节数
+   */
+  async downloadFile(instanceUuid: string, daemonId: string, target: string, maxBytes: number): Promise<Buffer> {
+    const transfer = await this.request('download file', fileTransferSchema, { daemonId }, () =>
+      this.client.post(
+        `/api/files/download?file_name=${encodeURIComponent(target)}&uuid=${instanceUuid}&daemonId=${daemonId}&apikey=${this.apiKey}`
+      )
+    );
+    const fileName = target.split('/').pop() ?? '';
+    const response = await this.transfer('download file', () =>
+      axios.get(this.transferURL(transfer, `/download/${transfer.password}/${encodeURIComponent(fileName)}`), {
+        timeout: this.timeoutMs,
+        responseType: 'arraybuffer',
+        maxContentLength: maxBytes
+      })
     );
-    return response.data;
+    return Buffer.from(response.data);
+  }
+
+  /**
+   * 拼接守护进程的文件传输地址
+   * 面板返回的地址可能不带协议，或者是WebSocket地址
+   * @param transfer 面板返回的传输凭证
+   * @param path 传输路径
+   */
+  private transferURL(transfer: FileTransfer, path: string) {
+    let base = transfer.addr.replace(/^ws(s?):\/\//i, 'http$1://');
+    if (!/^https?:\/\//i.test(base)) {
+      base = `http://${base}`;
+    }
+    return `${base.replace(/\/+$/, '')}${transfer.prefix ?? ''}${path}`;
+  }
+
+  /**
+   * 与守护进程直接传输文件
+   * @param action 操作描述，用于错误信息
+   * @param send 发送请求
+   */
+  private async transfer(action: string, send: () => Promise<AxiosResponse>): Promise<AxiosResponse> {
+    try {
+      return await send();
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response) {
+        throw createAPIError(action, error.response.status, describeError(error.response.data?.toString()));
+      }
+      if (axios.isAxiosError(error) && /maxContentLength/.test(error.message)) {
+        throw new MCSManagerAPIError(`Failed to ${action}: the file is larger than the download limit.`);
+      }
+      if (axios.isAxiosError(error) && (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT')) {
+        throw new RequestTimeoutError(`Failed to ${action}: the daemon did not respond within ${this.timeoutMs / 1000} seconds.`);
+      }
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new NetworkError(`Failed to ${action}: cannot reach the daemon for file transfer (${reason}). The daemon address configured in the panel must be reachable from this server.`);
+    }
   }
 
   /**
    * 获取用户列表
    * @param page 页码
    * @param pageSize 每页大小
+   * @param filters 过滤条件
+   */
+  async getUsers(page: number = 1, pageSize: number = 20, filters: UserFilters = {}) {
+    const userName = encodeURIComponent(filters.userName ?? '');
+    const role = filters.role ?? '';
+    return this.request('get users', userPageSchema, { retry: true }, () =>
+      this.client.get(
+        `/api/auth/list?page=${page}&page_size=${pageSize}&userName=${userName}&role=${role}&apikey=${this.apiKey}`
+      )
+    );
+  }
+
+  /**
+   * 创建用户
+   * @param userName 用户名
+   * @param password 密码
+   * @param permission 权限等级，1为普通用户，10为管理员
+   */
+  async createUser(userName: string, password: string, permission: number) {
+    return this.request('create user', anySchema, {}, () =>
+      this.client.post(
+        `/api/auth?apikey=${this.apiKey}`,
+        { username: userName, password, permission }
+      )
+    );
+  }
+
+  /**
+   * 修改用户配置
+   * @param uuid 用户ID
+   * @param config 需要修改的配置项
+   */
+  async updateUser(uuid: string, config: UserConfigInput) {
+    return this.request('update user', anySchema, {}, () =>
+      this.client.put(
+        `/api/auth?apikey=${this.apiKey}`,
+        { uuid, config }
+      )
+    );
+  }
+
+  /**
+   * 删除用户
+   * @param uuids 用户ID列表
    */
-  async getUsers(page: number = 1, pageSize: number = 20) {
-    const response = await this.client.get(
-      `/api/auth/list?page=${page}&page_size=${pageSize}&apikey=${this.apiKey}`
+  async deleteUsers(uuids: string[]) {
+    return this.request('delete users', anySchema, {}, () =>
+      this.client.delete(
+        `/api/auth?apikey=${this.apiKey}`,
+        { data: uuids }
+      )
     );
-    return response.data;
   }
 
   /**
    * 获取面板概览信息
+   * @param options 缓存选项
    */
-  async getOverview() {
-    const response = await this.client.get(`/api/overview?apikey=${this.apiKey}`);
-    return response.data;
+  async getOverview(options: CacheOptions = {}) {
+    return this.cache.get('overview', () => this.request('get overview', overviewSchema, { retry: true }, () =>
+      this.client.get(`/api/overview?apikey=${this.apiKey}`)
+    ), options.fresh);
   }
 }
@@ -0,0 +1,82 @@
+/**
+ * 缓存条目
+ */
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+/**
+ * 面板响应缓存
+ * 在短时间内复用相同请求的结果，并将并发的相同请求合并为一次请求。
+ * 键使用冒号分隔的层级结构，例如instance:<daemonId>:<instanceId>，可以按层级前缀失效
+ */
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private pending = new Map<string, Promise<unknown>>();
+  private ttlMs: number;
+
+  /**
+   * 创建响应缓存
+   * @param ttlSeconds 缓存时间（秒），0表示不缓存，只合并并发请求
+   */
+  constructor(ttlSeconds: number) {
+    this.ttlMs = ttlSeconds * 1000;
+  }
+
+  /**
+   * 获取缓存的结果，缓存不存在或已过期时加载
+   * 同一个键正在加载时，后来的调用（包括强制刷新）共享同一次加载
+   * @param key 缓存键
+   * @param load 加载函数
+   * @param fresh 是否忽略已缓存的结果
+   */
+  async get<T>(key: string, load: () => Promise<T>, fresh: boolean = false): Promise<T> {
+    if (!fresh) {
+      const entry = this.entries.get(key);
+      if (entry && entry.expiresAt > Date.now()) {
+        return entry.value as T;
+      }
+    }
+
+    const pending = this.pending.get(key);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+
+    const promise = load();
+    this.pending.set(key, promise);
+    promise.then(
+      (value) => {
+        // 请求期间缓存被失效时，结果可能已经过时，不保存
+        if (this.pending.get(key) === promise) {
+          this.pending.delete(key);
+          if (this.ttlMs > 0) {
+            this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+          }
+        }
+      },
+      () => {
+        if (this.pending.get(key) === promise) {
+          this.pending.delete(key);
+        }
+      }
+    );
+    return promise;
+  }
+
+  /**
+   * 使缓存失效
+   * 匹配的进行中请求也会被丢弃，之后的调用会重新发送请求
+   * @param prefixes 缓存键前缀，按完整层级匹配，例如instances:<daemonId>匹配该守护进程的所有实例列表
+   */
+  invalidate(...prefixes: string[]) {
+    for (const map of [this.entries, this.pending]) {
+      for (const key of map.keys()) {
+        if (prefixes.some((prefix) => key === prefix || key.startsWith(`${prefix}:`))) {
+          map.delete(key);
+        }
+      }
+    }
+  }
+}
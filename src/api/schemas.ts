@@ -0,0 +1,267 @@
+import { z } from 'zod';
+
+/*
+ * 面板响应的数据格式
+ * 只有识别对象所必需的字段是必填的，其余字段在不同版本的面板中可能缺失，因此都是可选的；
+ * 未列出的字段会原样保留
+ */
+
+/**
+ * 面板响应的外层结构，data字段由各接口的格式校验
+ */
+export const responseEnvelopeSchema = z.object({
+  status: z.number(),
+  data: z.unknown()
+});
+
+/**
+ * 主机系统信息
+ */
+const systemInfoSchema = z
+  .object({
+    type: z.string().optional(),
+    hostname: z.string().optional(),
+    platform: z.string().optional(),
+    release: z.string().optional(),
+    version: z.string().optional(),
+    node: z.string().optional(),
+    user: z.unknown().optional(),
+    time: z.number().optional(),
+    uptime: z.number().optional(),
+    cwd: z.string().optional(),
+    loadavg: z.array(z.number()).optional(),
+    totalmem: z.number().optional(),
+    freemem: z.number().optional(),
+    cpu: z.number().optional(),
+    cpuUsage: z.number().optional(),
+    memUsage: z.number().optional(),
+    processCpu: z.number().optional(),
+    processMem: z.number().optional()
+  })
+  .passthrough();
+
+/**
+ * 守护进程
+ */
+export const daemonSchema = z
+  .object({
+    uuid: z.string(),
+    available: z.boolean(),
+    remarks: z.string().optional(),
+    version: z.string().optional(),
+    ip: z.string().optional(),
+    port: z.number().optional(),
+    prefix: z.string().optional(),
+    process: z.unknown().optional(),
+    instance: z
+      .object({
+        running: z.number(),
+        total: z.number()
+      })
+      .passthrough()
+      .optional(),
+    system: systemInfoSchema.optional()
+  })
+  .passthrough();
+
+/**
+ * 面板概览
+ */
+export const overviewSchema = z
+  .object({
+    version: z.string().optional(),
+    specifiedDaemonVersion: z.string().optional(),
+    process: z.unknown().optional(),
+    record: z.unknown().optional(),
+    system: systemInfoSchema.optional(),
+    remoteCount: z
+      .object({
+        available: z.number(),
+        total: z.number()
+      })
+      .passthrough()
+      .optional(),
+    remote: z.array(daemonSchema)
+  })
+  .passthrough();
+
+/**
+ * 实例配置
+ */
+export const instanceConfigSchema = z
+  .object({
+    nickname: z.string().optional(),
+    type: z.string().optional(),
+    tag: z.array(z.string()).optional(),
+    cwd: z.string().optional(),
+    startCommand: z.string().optional(),
+    stopCommand: z.string().optional(),
+    ie: z.string().optional(),
+    oe: z.string().optional(),
+    fileCode: z.string().optional(),
+    processType: z.string().optional(),
+    createDatetime: z.union([z.number(), z.string()]).optional(),
+    lastDatetime: z.union([z.number(), z.string()]).optional()
+  })
+  .passthrough();
+
+/**
+ * 实例
+ */
+export const instanceSchema = z
+  .object({
+    instanceUuid: z.string(),
+    status: z.number(),
+    started: z.number().optional(),
+    config: instanceConfigSchema,
+    processInfo: z
+      .object({
+        cpu: z.number().optional(),
+        memory: z.number().optional()
+      })
+      .passthrough()
+      .nullish(),
+    info: z.unknown().optional()
+  })
+  .passthrough();
+
+/**
+ * 分页结果
+ * @param item 列表项的格式
+ */
+function pageSchema<T extends z.ZodTypeAny>(item: T) {
+  return z
+    .object({
+      page: z.number().optional(),
+      pageSize: z.number().optional(),
+      maxPage: z.number().optional(),
+      total: z.number().optional(),
+      data: z.array(item)
+    })
+    .passthrough();
+}
+
+/**
+ * 实例列表
+ */
+export const instancePageSchema = pageSchema(instanceSchema);
+
+/**
+ * 新创建的实例
+ */
+export const createdInstanceSchema = z
+  .object({
+    instanceUuid: z.string(),
+    config: instanceConfigSchema.optional()
+  })
+  .passthrough();
+
+/**
+ * 文件列表
+ */
+export const fileListSchema = z
+  .object({
+    absolutePath: z.string().optional(),
+    total: z.number().optional(),
+    items: z.array(
+      z
+        .object({
+          name: z.string(),
+          size: z.number().optional(),
+          time: z.string().optional(),
+          type: z.number(),
+          mode: z.number().optional()
+        })
+        .passthrough()
+    )
+  })
+  .passthrough();
+
+/**
+ * 文件上传或下载的临时凭证，文件内容直接与守护进程传输
+ */
+export const fileTransferSchema = z
+  .object({
+    password: z.string(),
+    addr: z.string(),
+    prefix: z.string().optional()
+  })
+  .passthrough();
+
+/**
+ * 实例的计划任务
+ * type为1时time是间隔秒数，为2和3时time是"秒 分 时 日 月 星期"格式的cron表达式；
+ * count为剩余执行次数，-1表示不限
+ */
+export const scheduleSchema = z
+  .object({
+    name: z.string(),
+    count: z.number().optional(),
+    time: z.string(),
+    action: z.string(),
+    type: z.number(),
+    payload: z.string().nullish()
+  })
+  .passthrough();
+
+/**
+ * 实例的计划任务列表，面板没有计划任务时可能返回null
+ */
+export const scheduleListSchema = z
+  .array(scheduleSchema)
+  .nullish()
+  .transform((list) => list ?? []);
+
+/**
+ * 面板用户
+ */
+export const userSchema = z
+  .object({
+    uuid: z.string(),
+    userName: z.string().optional(),
+    permission: z.number().optional(),
+    registerTime: z.string().optional(),
+    loginTime: z.string().optional(),
+    instances: z
+      .array(
+        z
+          .object({
+            instanceUuid: z.string(),
+            daemonId: z.string()
+          })
+          .passthrough()
+      )
+      .optional(),
+    open2FA: z.boolean().optional()
+  })
+  .passthrough();
+
+/**
+ * 用户列表
+ */
+export const userPageSchema = pageSchema(userSchema);
+
+/**
+ * 文件内容或控制台输出等文本，面板没有内容时可能返回null
+ */
+export const textSchema = z
+  .string()
+  .nullish()
+  .transform((text) => text ?? '');
+
+/**
+ * 不关心内容的响应，例如启动实例等操作的结果
+ */
+export const anySchema = z.unknown();
+
+export type Daemon = z.infer<typeof daemonSchema>;
+export type Overview = z.infer<typeof overviewSchema>;
+export type InstanceConfig = z.infer<typeof instanceConfigSchema>;
+export type Instance = z.infer<typeof instanceSchema>;
+export type InstancePage = z.infer<typeof instancePageSchema>;
+export type CreatedInstance = z.infer<typeof createdInstanceSchema>;
+export type FileList = z.infer<typeof fileListSchema>;
+export type FileTransfer = z.infer<typeof fileTransferSchema>;
+export type Schedule = z.infer<typeof scheduleSchema>;
+export type User = z.infer<typeof userSchema>;
+export type UserPage = z.infer<typeof userPageSchema>;
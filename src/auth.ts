@@ -0,0 +1,212 @@
+import { timingSafeEqual } from "crypto";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+
+declare module "express-serve-static-core" {
+  interface Request {
+    /**
+     * 已认证的令牌信息，会传递给MCP请求处理程序的extra.authInfo
+     */
+    auth?: AuthInfo;
+  }
+}
+
+/**
+ * 访问令牌的权限范围
+ * - read-only: 只能使用只读工具
+ * - operator: 额外可以控制实例（启动、停止、发送命令等）
+ * - admin: 可以使用全部工具，包括文件写入
+ */
+export type AuthScope = "read-only" | "operator" | "admin";
+
+/**
+ * 权限范围等级，数值越大权限越高
+ */
+const SCOPE_LEVELS: Record<AuthScope, number> = {
+  "read-only": 0,
+  operator: 1,
+  admin: 2,
+};
+
+/**
+ * 访问令牌配置
+ */
+export interface AuthToken {
+  /**
+   * 令牌名称，用于标识调用者身份
+   */
+  name: string;
+
+  /**
+   * Bearer令牌
+   */
+  token: string;
+
+  /**
+   * 权限范围
+   */
+  scope: AuthScope;
+}
+
+/**
+ * 会话的身份信息
+ */
+export interface SessionIdentity {
+  /**
+   * 调用者身份（令牌名称）
+   */
+  name: string;
+
+  /**
+   * 权限范围
+   */
+  scope: AuthScope;
+}
+
+/**
+ * 各工具所需的最低权限范围
+ * 未在此列出的工具默认需要admin权限
+ */
+export const TOOL_SCOPES: Record<string, AuthScope> = {
+  "list-panels": "read-only",
+  "get-daemons": "read-only",
+  "get-instances": "read-only",
+  "get-instance-detail": "read-only",
+  "get-files": "read-only",
+  "get-file-content": "read-only",
+  "find-files": "read-only",
+  "get-overview": "read-only",
+  "get-console-output": "read-only",
+  "list-schedules": "read-only",
+  "query-metrics": "read-only",
+  "download-file": "read-only",
+  "get-config-value": "read-only",
+  "list-file-versions": "read-only",
+  "diff-file-version": "read-only",
+  "start-instance": "operator",
+  "stop-instance": "operator",
+  "restart-instance": "operator",
+  "kill-instance": "operator",
+  "send-command": "operator",
+  "update-file": "admin",
+  "apply-file-patch": "admin",
+  "set-config-values": "admin",
+  "restore-file-version": "admin",
+  "create-directory": "admin",
+  "delete-files": "admin",
+  "move-file": "admin",
+  "copy-file": "admin",
+  "compress-files": "admin",
+  "extract-archive": "admin",
+  "upload-file": "admin",
+  "create-instance": "admin",
+  "update-instance-config": "admin",
+  "clone-instance": "admin",
+  "delete-instance": "admin",
+  "create-schedule": "admin",
+  "update-schedule": "admin",
+  "delete-schedule": "admin",
+  "get-audit-log": "admin",
+  "list-users": "admin",
+  "create-user": "admin",
+  "delete-user": "admin",
+  "set-user-role": "admin",
+  "grant-instance-access": "admin",
+  "revoke-instance-access": "admin",
+};
+
+/**
+ * 判断字符串是否为合法的权限范围
+ * @param value 待检查的字符串
+ */
+export function isAuthScope(value: string): value is AuthScope {
+  return value in SCOPE_LEVELS;
+}
+
+/**
+ * 判断权限范围是否满足要求
+ * @param scope 拥有的权限范围
+ * @param required 需要的权限范围
+ */
+export function hasScope(scope: AuthScope, required: AuthScope): boolean {
+  return SCOPE_LEVELS[scope] >= SCOPE_LEVELS[required];
+}
+
+/**
+ * 获取工具所需的权限范围
+ * @param toolName 工具名称
+ */
+export function getToolScope(toolName: string): AuthScope {
+  return TOOL_SCOPES[toolName] ?? "admin";
+}
+
+/**
+ * 解析访问令牌配置
+ * 格式为逗号分隔的 name:scope:token 列表，例如：
+ * alice:admin:secret1,monitor:read-only:secret2
+ * @param value 令牌配置字符串
+ */
+export function parseAuthTokens(value: string | undefined): AuthToken[] {
+  if (!value) {
+    return [];
+  }
+
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => {
+      const [name, scope, ...rest] = entry.split(":");
+      const token = rest.join(":");
+      if (!name || !scope || !token) {
+        throw new Error(
+          `Invalid auth token entry "${
+            name || entry
+          }", expected name:scope:token`
+        );
+      }
+      if (!isAuthScope(scope)) {
+        throw new Error(
+          `Invalid scope "${scope}" for auth token "${name}", expected one of: ${Object.keys(
+            SCOPE_LEVELS
+          ).join(", ")}`
+        );
+      }
+      return { name, scope, token };
+    });
+}
+
+/**
+ * 从Authorization请求头中提取Bearer令牌
+ * @param header Authorization请求头
+ */
+export function extractBearerToken(
+  header: string | undefined
+): string | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const match = /^Bearer\s+(.+)$/i.exec(header.trim());
+  return match ? match[1].trim() : undefined;
+}
+
+/**
+ * 使用配置的令牌验证Bearer令牌
+ * @param tokens 配置的令牌列表
+ * @param bearer 请求中携带的令牌
+ * @returns 匹配的令牌配置，未匹配时返回undefined
+ */
+export function authenticate(
+  tokens: AuthToken[],
+  bearer: string | undefined
+): AuthToken | undefined {
+  if (!bearer) {
+    return undefined;
+  }
+  const provided = Buffer.from(bearer);
+  return tokens.find((candidate) => {
+    const expected = Buffer.from(candidate.token);
+    return (
+      expected.length === provided.length && timingSafeEqual(expected, provided)
+    );
+  });
+}
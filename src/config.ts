@@ -1,21 +1,50 @@
 import dotenv from "dotenv";
+import { AuthScope, AuthToken, isAuthScope, parseAuthTokens } from "./auth.js";
+import { AccessPolicy, parseList } from "./access-policy.js";
 
 // 加载.env文件
 dotenv.config();
 
 /**
- * MCP服务器配置
+ * MCP传输方式
+ * - http: 通过Express在/mcp上提供Streamable HTTP服务
+ * - stdio: 通过标准输入输出与作为父进程的MCP客户端通信
  */
-export interface MCPServerConfig {
+export type TransportType = "http" | "stdio";
+
+/**
+ * MCSManager面板配置
+ */
+export interface PanelConfig {
+  /**
+   * 面板名称，用于工具的panel参数
+   */
+  name: string;
+
   /**
    * MCSManager面板URL
    */
-  mcsmanagerUrl: string;
+  url: string;
 
   /**
    * MCSManager API密钥
    */
   apiKey: string;
+}
+
+/**
+ * MCP服务器配置
+ */
+export interface MCPServerConfig {
+  /**
+   * MCSManager面板列表
+   */
+  panels: PanelConfig[];
+
+  /**
+   * 默认面板名称，工具未指定panel参数时使用
+   */
+  defaultPanel: string;
 
   /**
    * MCP服务器端口
@@ -26,24 +55,268 @@ export interface MCPServerConfig {
    * MCP服务器主机
    */
   host: string;
+
+  /**
+   * MCP传输方式
+   */
+  transport: TransportType;
+
+  /**
+   * HTTP传输的Bearer访问令牌，每个令牌带有独立的权限范围
+   */
+  authTokens: AuthToken[];
+
+  /**
+   * stdio传输的权限范围
+   */
+  stdioScope: AuthScope;
+
+  /**
+   * 访问策略（只读模式、工具及守护进程/实例的白名单和黑名单）
+   */
+  accessPolicy: AccessPolicy;
+
+  /**
+   * 危险操作（停止、重启、强制终止实例，更新、上传和删除文件）是否需要二次确认
+   */
+  confirmDestructive: boolean;
+
+  /**
+   * 确认令牌有效期（秒）
+   */
+  confirmationTtl: number;
+
+  /**
+   * 本地SQLite数据库文件路径，用于保存审计日志等数据
+   */
+  databasePath: string;
+
+  /**
+   * 写入文件前保存的版本数量（每个文件），0表示不保存
+   */
+  fileVersions: number;
+
+  /**
+   * 面板请求超时时间（秒）
+   */
+  requestTimeout: number;
+
+  /**
+   * 只读请求失败后的最大重试次数
+   */
+  requestRetries: number;
+
+  /**
+   * 触发守护进程熔断的连续失败次数，0表示不熔断
+   */
+  circuitBreakerThreshold: number;
+
+  /**
+   * 守护进程熔断后的冷却时间（秒）
+   */
+  circuitBreakerCooldown: number;
+
+  /**
+   * 面板响应（概览、实例列表、实例详情和文件列表）的缓存时间（秒），0表示不缓存
+   */
+  cacheTtl: number;
+
+  /**
+   * 资源订阅的轮询间隔（秒）
+   */
+  subscriptionPollInterval: number;
+
+  /**
+   * 是否在后台采集守护进程和实例的历史指标
+   */
+  metricsEnabled: boolean;
+
+  /**
+   * 指标采样间隔（秒）
+   */
+  metricsInterval: number;
+
+  /**
+   * 指标采样保留时长（小时）
+   */
+  metricsRetention: number;
+}
+
+/**
+ * 解析传输方式
+ * @param value 传输方式字符串
+ */
+function parseTransport(value: string | undefined): TransportType {
+  if (!value) {
+    return "http";
+  }
+  const transport = value.trim().toLowerCase();
+  if (transport !== "http" && transport !== "stdio") {
+    throw new Error(`Invalid transport "${value}", expected "http" or "stdio"`);
+  }
+  return transport;
+}
+
+/**
+ * 解析权限范围
+ * @param value 权限范围字符串
+ * @param fallback 未设置时的默认值
+ */
+function parseScope(value: string | undefined, fallback: AuthScope): AuthScope {
+  if (!value) {
+    return fallback;
+  }
+  if (!isAuthScope(value)) {
+    throw new Error(
+      `Invalid scope "${value}", expected "read-only", "operator" or "admin"`
+    );
+  }
+  return value;
+}
+
+/**
+ * 解析整数环境变量
+ * @param name 环境变量名称
+ * @param fallback 未设置时的默认值
+ * @param min 允许的最小值
+ */
+function parseInteger(name: string, fallback: number, min: number): number {
+  const value = process.env[name]?.trim();
+  if (!value) {
+    return fallback;
+  }
+  const parsed = /^-?\d+$/.test(value) ? parseInt(value) : NaN;
+  if (Number.isNaN(parsed) || parsed < min) {
+    throw new Error(
+      `Invalid ${name} "${value}", expected an integer of at least ${min}`
+    );
+  }
+  return parsed;
+}
+
+/**
+ * 从环境变量加载面板配置
+ * 未设置MCSMANAGER_PANELS时，使用MCSMANAGER_URL和MCSMANAGER_API_KEY配置名为default的单个面板；
+ * 否则MCSMANAGER_PANELS为逗号分隔的面板名称，每个面板通过
+ * MCSMANAGER_PANEL_<NAME>_URL和MCSMANAGER_PANEL_<NAME>_API_KEY配置
+ */
+function loadPanels(): PanelConfig[] {
+  const names = parseList(process.env.MCSMANAGER_PANELS);
+  if (names.length === 0) {
+    return [
+      {
+        name: "default",
+        url: process.env.MCSMANAGER_URL || "http://localhost:23333",
+        apiKey: process.env.MCSMANAGER_API_KEY || "",
+      },
+    ];
+  }
+
+  return names.map((name) => {
+    const prefix = `MCSMANAGER_PANEL_${name
+      .toUpperCase()
+      .replace(/[^A-Z0-9]/g, "_")}`;
+    const url = process.env[`${prefix}_URL`];
+    if (!url) {
+      throw new Error(`${prefix}_URL must be set for panel "${name}"`);
+    }
+    return {
+      name,
+      url,
+      apiKey: process.env[`${prefix}_API_KEY`] || "",
+    };
+  });
+}
+
+/**
+ * 从环境变量加载配置
+ * 在getConfig中调用而不是在模块加载时执行，使配置错误能被调用方捕获
+ */
+function loadEnvConfig(): MCPServerConfig {
+  const panels = loadPanels();
+  return {
+    panels,
+    defaultPanel: process.env.MCSMANAGER_DEFAULT_PANEL || panels[0].name,
+    port: parseInteger("MCP_PORT", 3000, 1),
+    host: process.env.MCP_HOST || "localhost",
+    transport: parseTransport(process.env.MCP_TRANSPORT),
+    authTokens: parseAuthTokens(process.env.MCP_AUTH_TOKENS),
+    stdioScope: parseScope(process.env.MCP_STDIO_SCOPE, "admin"),
+    accessPolicy: {
+      readOnly: process.env.MCP_READ_ONLY === "true",
+      toolAllowList: parseList(process.env.MCP_TOOL_ALLOW),
+      toolDenyList: parseList(process.env.MCP_TOOL_DENY),
+      daemonAllowList: parseList(process.env.MCP_DAEMON_ALLOW),
+      daemonDenyList: parseList(process.env.MCP_DAEMON_DENY),
+      instanceAllowList: parseList(process.env.MCP_INSTANCE_ALLOW),
+      instanceDenyList: parseList(process.env.MCP_INSTANCE_DENY),
+    },
+    confirmDestructive: process.env.MCP_CONFIRM_DESTRUCTIVE !== "false",
+    confirmationTtl: parseInteger("MCP_CONFIRMATION_TTL", 120, 1),
+    databasePath: process.env.MCP_DATABASE_PATH || "data/mcsmanager-mcp.db",
+    fileVersions: parseInteger("MCP_FILE_VERSIONS", 20, 0),
+    requestTimeout: parseInteger("MCP_REQUEST_TIMEOUT", 30, 1),
+    requestRetries: parseInteger("MCP_REQUEST_RETRIES", 2, 0),
+    circuitBreakerThreshold: parseInteger(
+      "MCP_CIRCUIT_BREAKER_THRESHOLD",
+      3,
+      0
+    ),
+    circuitBreakerCooldown: parseInteger("MCP_CIRCUIT_BREAKER_COOLDOWN", 30, 0),
+    cacheTtl: parseInteger("MCP_CACHE_TTL", 5, 0),
+    subscriptionPollInterval: parseInteger(
+      "MCP_SUBSCRIPTION_POLL_INTERVAL",
+      10,
+      1
+    ),
+    metricsEnabled: process.env.MCP_METRICS_ENABLED === "true",
+    metricsInterval: parseInteger("MCP_METRICS_INTERVAL", 60, 1),
+    metricsRetention: parseInteger("MCP_METRICS_RETENTION_HOURS", 168, 1),
+  };
 }
 
 /**
- * 默认配置
+ * 从命令行参数中解析配置
+ * 支持 --transport <http|stdio>、--transport=<http|stdio>、--stdio 和 --read-only
+ * @param argv 命令行参数
+ * @param base 环境变量中的配置
  */
-export const defaultConfig: MCPServerConfig = {
-  mcsmanagerUrl: process.env.MCSMANAGER_URL || "http://localhost:23333",
-  apiKey: process.env.MCSMANAGER_API_KEY || "",
-  port: parseInt(process.env.MCP_PORT || "3000"),
-  host: process.env.MCP_HOST || "localhost",
-};
+function parseArgs(
+  argv: string[],
+  base: MCPServerConfig
+): Partial<MCPServerConfig> {
+  const overrides: Partial<MCPServerConfig> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--stdio") {
+      overrides.transport = "stdio";
+    } else if (arg === "--transport") {
+      overrides.transport = parseTransport(argv[++i]);
+    } else if (arg.startsWith("--transport=")) {
+      overrides.transport = parseTransport(arg.slice("--transport=".length));
+    } else if (arg === "--read-only") {
+      overrides.accessPolicy = {
+        ...base.accessPolicy,
+        readOnly: true,
+      };
+    }
+  }
+
+  return overrides;
+}
 
 /**
  * 获取配置
+ * 命令行参数优先于环境变量
+ * @param argv 命令行参数，默认为process.argv
  */
-export function getConfig(): MCPServerConfig {
+export function getConfig(
+  argv: string[] = process.argv.slice(2)
+): MCPServerConfig {
+  const config = loadEnvConfig();
   return {
-    ...defaultConfig,
-    // 可以在这里添加从其他来源加载配置的逻辑
+    ...config,
+    ...parseArgs(argv, config),
   };
 }
@@ -0,0 +1,151 @@
+import { createHash, randomBytes } from "crypto";
+
+/**
+ * 待确认的操作
+ */
+interface PendingConfirmation {
+  /**
+   * 工具名称
+   */
+  toolName: string;
+
+  /**
+   * 工具参数的摘要，确保确认时参数未被修改
+   */
+  argsHash: string;
+
+  /**
+   * 预览所依据内容的摘要，例如要修改的文件的当前内容
+   */
+  stateHash?: string;
+
+  /**
+   * 发起操作的调用者身份
+   */
+  identity: string;
+
+  /**
+   * 过期时间（毫秒时间戳）
+   */
+  expiresAt: number;
+}
+
+/**
+ * 确认令牌的验证结果
+ * - valid: 令牌有效，可以执行操作
+ * - invalid: 令牌不存在、已过期或与操作不匹配
+ * - changed: 令牌与操作匹配，但预览所依据的内容已经改变
+ */
+export type ConfirmationResult = "valid" | "invalid" | "changed";
+
+/**
+ * 计算内容的摘要
+ * @param state 内容
+ */
+function hashState(state: string | undefined): string | undefined {
+  return state === undefined
+    ? undefined
+    : createHash("sha256").update(state).digest("hex");
+}
+
+/**
+ * 计算工具参数的摘要
+ * 对键排序以保证相同参数得到相同结果
+ * @param args 工具参数
+ */
+function hashArgs(args: Record<string, unknown>): string {
+  const sorted = Object.keys(args)
+    .sort()
+    .map((key) => [key, args[key]]);
+  return createHash("sha256").update(JSON.stringify(sorted)).digest("hex");
+}
+
+/**
+ * 危险操作的确认令牌存储
+ * 令牌与工具名称、参数和调用者身份绑定，只能使用一次
+ */
+export class ConfirmationStore {
+  private pending = new Map<string, PendingConfirmation>();
+  private ttlMs: number;
+
+  /**
+   * 创建确认令牌存储
+   * @param ttlSeconds 令牌有效期（秒）
+   */
+  constructor(ttlSeconds: number) {
+    this.ttlMs = ttlSeconds * 1000;
+  }
+
+  /**
+   * 签发确认令牌
+   * @param toolName 工具名称
+   * @param args 工具参数（不包含确认令牌）
+   * @param identity 调用者身份
+   * @param state 预览所依据的内容，确认时内容改变则令牌失效
+   */
+  issue(
+    toolName: string,
+    args: Record<string, unknown>,
+    identity: string,
+    state?: string
+  ) {
+    this.purgeExpired();
+
+    const token = randomBytes(16).toString("hex");
+    const expiresAt = Date.now() + this.ttlMs;
+    this.pending.set(token, {
+      toolName,
+      argsHash: hashArgs(args),
+      stateHash: hashState(state),
+      identity,
+      expiresAt,
+    });
+    return { token, expiresAt: new Date(expiresAt) };
+  }
+
+  /**
+   * 使用确认令牌
+   * 无论验证是否成功，令牌都会被作废
+   * @param token 确认令牌
+   * @param toolName 工具名称
+   * @param args 工具参数（不包含确认令牌）
+   * @param identity 调用者身份
+   * @param state 执行前重新读取的内容，与签发时的内容比较
+   */
+  consume(
+    token: string,
+    toolName: string,
+    args: Record<string, unknown>,
+    identity: string,
+    state?: string
+  ): ConfirmationResult {
+    this.purgeExpired();
+
+    const pending = this.pending.get(token);
+    if (!pending) {
+      return "invalid";
+    }
+    this.pending.delete(token);
+
+    if (
+      pending.toolName !== toolName ||
+      pending.identity !== identity ||
+      pending.argsHash !== hashArgs(args)
+    ) {
+      return "invalid";
+    }
+    return pending.stateHash === hashState(state) ? "valid" : "changed";
+  }
+
+  /**
+   * 清理过期的令牌
+   */
+  private purgeExpired() {
+    const now = Date.now();
+    for (const [token, pending] of this.pending) {
+      if (pending.expiresAt <= now) {
+        this.pending.delete(token);
+      }
+    }
+  }
+}
@@ -1,6 +1,17 @@
 import { MCSManagerMCPServer } from "./server.js";
 import { getConfig } from "./config.js";
 
+/**
+ * 将标准输出日志重定向到标准错误
+ * stdio模式下stdout专用于JSON-RPC消息，任何日志输出都会破坏消息流
+ */
+function redirectConsoleToStderr() {
+  const writeToStderr = (...args: unknown[]) => console.error(...args);
+  console.log = writeToStderr;
+  console.info = writeToStderr;
+  console.debug = writeToStderr;
+}
+
 /**
  * 主函数
  */
@@ -9,10 +20,26 @@ async function main() {
     // 获取配置
     const config = getConfig();
 
+    if (config.transport === "stdio") {
+      redirectConsoleToStderr();
+    }
+
     // 检查API密钥
-    if (!config.apiKey) {
+    for (const panel of config.panels) {
+      if (!panel.apiKey) {
+        console.error(
+          config.panels.length === 1 && panel.name === "default"
+            ? "Error: MCSMANAGER_API_KEY environment variable is not set"
+            : `Error: API key for panel "${panel.name}" is not set`
+        );
+        process.exit(1);
+      }
+    }
+
+    // 检查默认面板
+    if (!config.panels.some((panel) => panel.name === config.defaultPanel)) {
       console.error(
-        "Error: MCSMANAGER_API_KEY environment variable is not set"
+        `Error: Default panel "${config.defaultPanel}" is not configured`
       );
       process.exit(1);
     }
@@ -0,0 +1,303 @@
+import { MCSManagerAPI } from "./api/mcsmanager-api.js";
+
+/**
+ * 实例索引中的一条记录
+ */
+export interface InstanceEntry {
+  daemonId: string;
+  daemonName: string;
+  instanceId: string;
+  instanceName: string;
+}
+
+/**
+ * 实例引用
+ * 可以直接提供daemonId和instanceId，也可以提供instance引用：
+ * 实例名称、"守护进程名称/实例名称"或实例ID前缀
+ */
+export interface InstanceRef {
+  daemonId?: string;
+  instanceId?: string;
+  instance?: string;
+}
+
+/**
+ * 分页获取实例列表时的每页大小
+ */
+const PAGE_SIZE = 100;
+
+/**
+ * 实例ID前缀的最小长度，避免过短的前缀误匹配
+ */
+const MIN_PREFIX_LENGTH = 4;
+
+/**
+ * 格式化实例记录，用于错误信息
+ * @param entry 实例记录
+ */
+function formatEntry(entry: InstanceEntry) {
+  return `${entry.daemonName}/${entry.instanceName} (daemonId: ${entry.daemonId}, instanceId: ${entry.instanceId})`;
+}
+
+/**
+ * 按名称或ID匹配
+ * 依次尝试完全匹配ID、忽略大小写匹配名称和匹配ID前缀，返回第一组非空的结果
+ * @param entries 候选记录
+ * @param ref 引用
+ * @param getId 获取ID
+ * @param getName 获取名称
+ */
+function matchByNameOrId<T>(
+  entries: T[],
+  ref: string,
+  getId: (entry: T) => string,
+  getName: (entry: T) => string
+): T[] {
+  const lowerRef = ref.toLowerCase();
+  const matchers: Array<(entry: T) => boolean> = [
+    (entry) => getId(entry) === ref,
+    (entry) => (getName(entry) || "").toLowerCase() === lowerRef,
+    (entry) => ref.length >= MIN_PREFIX_LENGTH && getId(entry).startsWith(ref),
+  ];
+
+  for (const matcher of matchers) {
+    const matched = entries.filter(matcher);
+    if (matched.length > 0) {
+      return matched;
+    }
+  }
+  return [];
+}
+
+/**
+ * 实例解析器
+ * 遍历面板上所有守护进程的实例列表，将实例引用解析为daemonId和instanceId
+ * 实例索引会缓存一段时间，解析失败时会刷新缓存后重试一次
+ */
+export class InstanceResolver {
+  private api: MCSManagerAPI;
+  private ttlMs: number;
+  private entries: InstanceEntry[] = [];
+  private loadedAt = 0;
+  private loading?: Promise<InstanceEntry[]>;
+  private loadingFresh = false;
+
+  /**
+   * 上一次加载时无法获取实例列表而被跳过的守护进程及错误信息
+   */
+  private skipped: string[] = [];
+
+  /**
+   * 创建实例解析器
+   * @param api MCSManager API客户端
+   * @param ttlSeconds 实例索引缓存时间（秒）
+   */
+  constructor(api: MCSManagerAPI, ttlSeconds: number = 30) {
+    this.api = api;
+    this.ttlMs = ttlSeconds * 1000;
+  }
+
+  /**
+   * 使实例索引缓存失效
+   */
+  invalidate() {
+    this.loadedAt = 0;
+  }
+
+  /**
+   * 列出实例索引中的实例
+   * @param filter 过滤实例，例如排除访问策略禁止的实例
+   */
+  async list(
+    filter: (entry: InstanceEntry) => boolean = () => true
+  ): Promise<InstanceEntry[]> {
+    return (await this.getEntries(false)).filter(filter);
+  }
+
+  /**
+   * 解析实例引用
+   * @param ref 实例引用
+   * @param filter 过滤候选实例，例如排除访问策略禁止的实例
+   */
+  async resolve(
+    ref: InstanceRef,
+    filter: (entry: InstanceEntry) => boolean = () => true
+  ): Promise<{ daemonId: string; instanceId: string }> {
+    if (ref.daemonId && ref.instanceId) {
+      return { daemonId: ref.daemonId, instanceId: ref.instanceId };
+    }
+
+    const query = ref.instance ?? ref.instanceId;
+    if (!query) {
+      throw new Error(
+        "Either instance, or both daemonId and instanceId, must be provided"
+      );
+    }
+
+    const cached = this.isCacheValid();
+    let matches = this.match(
+      (await this.getEntries(false)).filter(filter),
+      query,
+      ref.daemonId
+    );
+    if (matches.length === 0 && cached) {
+      // 缓存可能已过时，刷新后重试
+      matches = this.match(
+        (await this.getEntries(true)).filter(filter),
+        query,
+        ref.daemonId
+      );
+    }
+
+    if (matches.length === 0) {
+      const skipped =
+        this.skipped.length > 0
+          ? `\nThe instances of these daemons could not be listed:\n${this.skipped
+              .map((daemon) => `- ${daemon}`)
+              .join("\n")}`
+          : "";
+      throw new Error(
+        `No instance matches "${query}". Use get-instances to list instances.${skipped}`
+      );
+    }
+    if (matches.length > 1) {
+      throw new Error(
+        `"${query}" matches ${
+          matches.length
+        } instances, please be more specific:\n${matches
+          .map((entry) => `- ${formatEntry(entry)}`)
+          .join("\n")}`
+      );
+    }
+
+    return { daemonId: matches[0].daemonId, instanceId: matches[0].instanceId };
+  }
+
+  /**
+   * 在实例索引中匹配引用
+   * @param entries 实例索引
+   * @param query 实例引用
+   * @param daemonId 限定的守护进程ID
+   */
+  private match(entries: InstanceEntry[], query: string, daemonId?: string) {
+    let candidates = daemonId
+      ? entries.filter((entry) => entry.daemonId === daemonId)
+      : entries;
+
+    let instanceRef = query;
+    const separator = query.indexOf("/");
+    if (!daemonId && separator > 0) {
+      // "守护进程名称/实例名称"形式
+      const daemonRef = query.slice(0, separator);
+      instanceRef = query.slice(separator + 1);
+      const daemonIds = new Set(
+        matchByNameOrId(
+          candidates,
+          daemonRef,
+          (entry) => entry.daemonId,
+          (entry) => entry.daemonName
+        ).map((entry) => entry.daemonId)
+      );
+      candidates = candidates.filter((entry) => daemonIds.has(entry.daemonId));
+    }
+
+    return matchByNameOrId(
+      candidates,
+      instanceRef,
+      (entry) => entry.instanceId,
+      (entry) => entry.instanceName
+    );
+  }
+
+  /**
+   * 实例索引缓存是否有效
+   */
+  private isCacheValid() {
+    return Date.now() - this.loadedAt < this.ttlMs;
+  }
+
+  /**
+   * 获取实例索引
+   * 并发请求共享同一次加载；需要刷新时如果正在进行的加载使用了API客户端的响应缓存，
+   * 等它结束后再重新加载一次
+   * @param refresh 是否忽略缓存
+   */
+  private async getEntries(refresh: boolean): Promise<InstanceEntry[]> {
+    if (!refresh && this.isCacheValid()) {
+      return this.entries;
+    }
+
+    if (this.loading && (this.loadingFresh || !refresh)) {
+      return this.loading;
+    }
+
+    const previous = this.loading;
+    const loading: Promise<InstanceEntry[]> = (async () => {
+      await previous?.catch(() => undefined);
+      return this.load(refresh);
+    })().finally(() => {
+      if (this.loading === loading) {
+        this.loading = undefined;
+      }
+    });
+    this.loading = loading;
+    this.loadingFresh = refresh;
+    return loading;
+  }
+
+  /**
+   * 从面板加载所有守护进程的实例列表
+   * 某个守护进程的实例列表获取失败时跳过该守护进程，不影响其他守护进程
+   * @param fresh 是否忽略API客户端的响应缓存
+   */
+  private async load(fresh: boolean): Promise<InstanceEntry[]> {
+    const overview = await this.api.getOverview({ fresh });
+
+    const entries: InstanceEntry[] = [];
+    const skipped: string[] = [];
+    for (const daemon of overview.remote) {
+      if (!daemon.available) {
+        continue;
+      }
+
+      const daemonEntries: InstanceEntry[] = [];
+      let page = 1;
+      let maxPage = 1;
+      try {
+        do {
+          const instances = await this.api.getInstances(
+            daemon.uuid,
+            page,
+            PAGE_SIZE,
+            {},
+            { fresh }
+          );
+
+          for (const instance of instances.data) {
+            daemonEntries.push({
+              daemonId: daemon.uuid,
+              daemonName: daemon.remarks ?? "",
+              instanceId: instance.instanceUuid,
+              instanceName: instance.config.nickname ?? "",
+            });
+          }
+          maxPage = instances.maxPage ?? 1;
+          page++;
+        } while (page <= maxPage);
+      } catch (error) {
+        skipped.push(
+          `${daemon.remarks || daemon.uuid} (daemonId: ${daemon.uuid}): ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+        continue;
+      }
+      entries.push(...daemonEntries);
+    }
+
+    this.entries = entries;
+    this.skipped = skipped;
+    this.loadedAt = Date.now();
+    return entries;
+  }
+}
@@ -0,0 +1,188 @@
+import { MCSManagerAPI } from "./api/mcsmanager-api.js";
+import {
+  AccessPolicy,
+  isDaemonAllowed,
+  isInstanceAllowed,
+} from "./access-policy.js";
+import { MetricSample, MetricsStore } from "./storage/metrics-store.js";
+
+/**
+ * 分页获取实例列表时的每页大小
+ */
+const PAGE_SIZE = 100;
+
+/**
+ * 实例运行中的状态码
+ */
+const STATUS_RUNNING = 3;
+
+/**
+ * 将面板返回的值转换为有效数值
+ * @param value 面板返回的值
+ */
+function toNumber(value: unknown): number | undefined {
+  const number = Number(value);
+  return value === undefined || value === null || !Number.isFinite(number)
+    ? undefined
+    : number;
+}
+
+/**
+ * 后台指标采样器
+ * 定期采集所有面板上守护进程和实例的资源使用情况并写入指标存储，
+ * 同时清理超过保留期限的采样。访问策略禁止的守护进程和实例不会被采样
+ */
+export class MetricsSampler {
+  private apis: { [panel: string]: MCSManagerAPI };
+  private policy: AccessPolicy;
+  private store: MetricsStore;
+  private intervalMs: number;
+  private retentionMs: number;
+  private timer?: NodeJS.Timeout;
+
+  /**
+   * 创建指标采样器
+   * @param apis 各面板的API客户端
+   * @param policy 访问策略
+   * @param store 指标存储
+   * @param intervalSeconds 采样间隔（秒）
+   * @param retentionHours 采样保留时长（小时）
+   */
+  constructor(
+    apis: { [panel: string]: MCSManagerAPI },
+    policy: AccessPolicy,
+    store: MetricsStore,
+    intervalSeconds: number,
+    retentionHours: number
+  ) {
+    this.apis = apis;
+    this.policy = policy;
+    this.store = store;
+    this.intervalMs = intervalSeconds * 1000;
+    this.retentionMs = retentionHours * 3600 * 1000;
+  }
+
+  /**
+   * 开始定期采样
+   */
+  start() {
+    if (this.timer) {
+      return;
+    }
+    const run = () => {
+      this.sample()
+        .catch((error) => {
+          console.error("Error sampling metrics:", error);
+        })
+        .finally(() => {
+          // 上一次采样完成后才开始计时，避免面板响应慢时采样堆积
+          if (this.timer) {
+            this.timer = setTimeout(run, this.intervalMs);
+            this.timer.unref();
+          }
+        });
+    };
+    this.timer = setTimeout(run, 0);
+    this.timer.unref();
+  }
+
+  /**
+   * 停止采样
+   */
+  stop() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * 采样一次所有面板，并清理过期的采样
+   * 单个面板或守护进程失败不影响其他面板和守护进程
+   */
+  async sample() {
+    const timestamp = new Date();
+    const samples: MetricSample[] = [];
+    for (const [panel, api] of Object.entries(this.apis)) {
+      try {
+        samples.push(...(await this.samplePanel(panel, api)));
+      } catch (error) {
+        console.error(`Error sampling metrics for panel ${panel}:`, error);
+      }
+    }
+
+    this.store.record(timestamp, samples);
+    this.store.purge(new Date(timestamp.getTime() - this.retentionMs));
+  }
+
+  /**
+   * 采样单个面板
+   * @param panel 面板名称
+   * @param api MCSManager API客户端
+   */
+  private async samplePanel(panel: string, api: MCSManagerAPI) {
+    const overview = await api.getOverview();
+
+    const samples: MetricSample[] = [];
+    const add = (
+      daemonId: string,
+      instanceId: string | undefined,
+      metric: string,
+      value: unknown
+    ) => {
+      const number = toNumber(value);
+      if (number !== undefined) {
+        samples.push({ panel, daemonId, instanceId, metric, value: number });
+      }
+    };
+
+    for (const daemon of overview.remote) {
+      if (!daemon.available || !isDaemonAllowed(this.policy, daemon.uuid)) {
+        continue;
+      }
+
+      add(daemon.uuid, undefined, "cpuUsage", daemon.system?.cpuUsage);
+      add(daemon.uuid, undefined, "memUsage", daemon.system?.memUsage);
+      add(daemon.uuid, undefined, "load1", daemon.system?.loadavg?.[0]);
+      add(daemon.uuid, undefined, "instancesRunning", daemon.instance?.running);
+      add(daemon.uuid, undefined, "instancesTotal", daemon.instance?.total);
+
+      try {
+        let page = 1;
+        let maxPage = 1;
+        do {
+          const instances = await api.getInstances(
+            daemon.uuid,
+            page,
+            PAGE_SIZE
+          );
+
+          for (const instance of instances.data) {
+            const instanceId = instance.instanceUuid;
+            if (!isInstanceAllowed(this.policy, daemon.uuid, instanceId)) {
+              continue;
+            }
+            const running = instance.status === STATUS_RUNNING;
+            add(daemon.uuid, instanceId, "running", running ? 1 : 0);
+            if (running) {
+              add(daemon.uuid, instanceId, "cpu", instance.processInfo?.cpu);
+              add(
+                daemon.uuid,
+                instanceId,
+                "memory",
+                instance.processInfo?.memory
+              );
+            }
+          }
+          maxPage = instances.maxPage ?? 1;
+          page++;
+        } while (page <= maxPage);
+      } catch (error) {
+        console.error(
+          `Error sampling instance metrics for daemon ${daemon.uuid}:`,
+          error
+        );
+      }
+    }
+
+    return samples;
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * Prometheus指标类型
+ */
+export type MetricType = "gauge" | "counter" | "histogram";
+
+/**
+ * 指标标签
+ */
+export type MetricLabels = Record<string, string>;
+
+/**
+ * 一个指标样本
+ */
+export interface MetricSampleLine {
+  /**
+   * 指标名称后缀，例如直方图的_bucket、_sum和_count
+   */
+  suffix?: string;
+  labels?: MetricLabels;
+  value: number;
+}
+
+/**
+ * 工具调用耗时直方图的分桶上限（秒）
+ */
+const DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+/**
+ * 转义标签值
+ * @param value 标签值
+ */
+function escapeLabelValue(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/\n/g, "\\n")
+    .replace(/"/g, '\\"');
+}
+
+/**
+ * 格式化数值
+ * @param value 数值
+ */
+function formatValue(value: number) {
+  if (Number.isNaN(value)) {
+    return "NaN";
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? "+Inf" : "-Inf";
+  }
+  return String(value);
+}
+
+/**
+ * Prometheus文本格式输出
+ * 同一指标的所有样本需要一次性写入，以保证它们在输出中相邻
+ */
+export class PrometheusText {
+  private lines: string[] = [];
+
+  /**
+   * 写入一个指标及其所有样本
+   * @param name 指标名称
+   * @param type 指标类型
+   * @param help 指标说明
+   * @param samples 样本
+   */
+  metric(
+    name: string,
+    type: MetricType,
+    help: string,
+    samples: MetricSampleLine[]
+  ) {
+    this.lines.push(`# HELP ${name} ${help}`);
+    this.lines.push(`# TYPE ${name} ${type}`);
+    for (const sample of samples) {
+      const labels = Object.entries(sample.labels ?? {})
+        .map(([key, value]) => `${key}="${escapeLabelValue(value)}"`)
+        .join(",");
+      this.lines.push(
+        `${name}${sample.suffix ?? ""}${
+          labels ? `{${labels}}` : ""
+        } ${formatValue(sample.value)}`
+      );
+    }
+  }
+
+  /**
+   * 获取文本格式的输出
+   */
+  toString() {
+    return this.lines.join("\n") + "\n";
+  }
+}
+
+/**
+ * 单个工具的调用统计
+ */
+interface ToolCallStats {
+  calls: number;
+  errors: number;
+  durationSum: number;
+
+  /**
+   * 与DURATION_BUCKETS对应的累计计数
+   */
+  buckets: number[];
+}
+
+/**
+ * MCP服务器自身的工具调用统计
+ */
+export class ToolCallMetrics {
+  private stats = new Map<string, ToolCallStats>();
+
+  /**
+   * 记录一次工具调用
+   * @param toolName 工具名称
+   * @param failed 是否失败
+   * @param durationMs 耗时（毫秒）
+   */
+  record(toolName: string, failed: boolean, durationMs: number) {
+    let stats = this.stats.get(toolName);
+    if (!stats) {
+      stats = {
+        calls: 0,
+        errors: 0,
+        durationSum: 0,
+        buckets: DURATION_BUCKETS.map(() => 0),
+      };
+      this.stats.set(toolName, stats);
+    }
+
+    const duration = durationMs / 1000;
+    stats.calls++;
+    if (failed) {
+      stats.errors++;
+    }
+    stats.durationSum += duration;
+    DURATION_BUCKETS.forEach((bound, index) => {
+      if (duration <= bound) {
+        stats!.buckets[index]++;
+      }
+    });
+  }
+
+  /**
+   * 将工具调用统计写入Prometheus输出
+   * @param output Prometheus文本输出
+   */
+  write(output: PrometheusText) {
+    const entries = [...this.stats].sort(([a], [b]) => a.localeCompare(b));
+
+    output.metric(
+      "mcp_tool_calls_total",
+      "counter",
+      "Total number of MCP tool calls",
+      entries.map(([tool, stats]) => ({
+        labels: { tool },
+        value: stats.calls,
+      }))
+    );
+    output.metric(
+      "mcp_tool_errors_total",
+      "counter",
+      "Total number of failed MCP tool calls",
+      entries.map(([tool, stats]) => ({
+        labels: { tool },
+        value: stats.errors,
+      }))
+    );
+    output.metric(
+      "mcp_tool_call_duration_seconds",
+      "histogram",
+      "MCP tool call latency in seconds",
+      entries.flatMap(([tool, stats]) => [
+        ...DURATION_BUCKETS.map((bound, index) => ({
+          suffix: "_bucket",
+          labels: { tool, le: String(bound) },
+          value: stats.buckets[index],
+        })),
+        { suffix: "_bucket", labels: { tool, le: "+Inf" }, value: stats.calls },
+        { suffix: "_sum", labels: { tool }, value: stats.durationSum },
+        { suffix: "_count", labels: { tool }, value: stats.calls },
+      ])
+    );
+  }
+}
@@ -1,21 +1,283 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  McpServer,
+  ResourceTemplate,
+  ToolCallback,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ShapeOutput } from "@modelcontextprotocol/sdk/server/zod-compat.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
-import { z } from "zod";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  CallToolResult,
+  ServerNotification,
+  ServerRequest,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { UriTemplate } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import { z, ZodRawShape } from "zod";
 import express from "express";
 import { randomUUID } from "crypto";
+import { AsyncLocalStorage } from "async_hooks";
 import { MCSManagerAPI } from "./api/mcsmanager-api.js";
+import { NotFoundError } from "./api/errors.js";
+import { FileList, Instance, User } from "./api/schemas.js";
 import { MCPServerConfig } from "./config.js";
+import {
+  SessionIdentity,
+  authenticate,
+  extractBearerToken,
+  getToolScope,
+  hasScope,
+} from "./auth.js";
+import { ConfirmationStore } from "./confirmation.js";
+import { createUnifiedDiff, splitLines } from "./utils/diff.js";
+import { applySearchReplace, applyUnifiedDiff } from "./utils/patch.js";
+import {
+  buildSchedule,
+  parseScheduleTime,
+  summarizeSchedule,
+} from "./utils/schedule.js";
+import {
+  createPathMatcher,
+  mapWithConcurrency,
+  walkDirectory,
+  WalkEntry,
+} from "./utils/file-search.js";
+import {
+  isBinaryContent,
+  searchLines,
+  selectLines,
+  truncateBytes,
+} from "./utils/text-file.js";
+import {
+  detectConfigFormat,
+  getConfigValues,
+  setConfigValues,
+} from "./utils/config-file.js";
+import {
+  normalizeInstancePath,
+  normalizeWritablePath,
+  splitPath,
+} from "./utils/file-path.js";
+import {
+  extractNewLines,
+  filterLines,
+  stripAnsi,
+  tailLines,
+} from "./utils/console-output.js";
+import {
+  isDaemonAllowed,
+  isInstanceAllowed,
+  isToolAllowed,
+} from "./access-policy.js";
+import { InstanceRef, InstanceResolver } from "./instance-resolver.js";
+import { openDatabase } from "./storage/database.js";
+import { AuditLog } from "./storage/audit-log.js";
+import {
+  DAEMON_METRICS,
+  INSTANCE_METRICS,
+  MetricStats,
+  MetricsStore,
+} from "./storage/metrics-store.js";
+import {
+  FileVersionStore,
+  FileVersionTarget,
+} from "./storage/file-versions.js";
+import { MetricsSampler } from "./metrics-sampler.js";
+import {
+  MetricSampleLine,
+  PrometheusText,
+  ToolCallMetrics,
+} from "./prometheus.js";
+import { ResourceSubscriptions } from "./subscriptions.js";
+
+/**
+ * HTTP会话
+ */
+interface McpSession {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  identity: SessionIdentity;
+}
+
+/**
+ * 单次工具调用的上下文
+ */
+interface ToolCallContext {
+  /**
+   * 调用期间面板最后一次响应的状态码
+   */
+  panelStatus?: number;
+
+  /**
+   * 危险操作是否仅返回了预览，尚未执行
+   */
+  confirmationPending?: boolean;
+
+  /**
+   * 用户是否拒绝或取消了危险操作的确认
+   */
+  confirmationDeclined?: boolean;
+
+  /**
+   * 调用期间解析出的守护进程ID和实例ID，通过名称引用实例时参数中没有这两个ID
+   */
+  daemonId?: string;
+  instanceId?: string;
+}
+
+/**
+ * 实例状态码
+ */
+const INSTANCE_STATUS: Record<string, number> = {
+  busy: -1,
+  stopped: 0,
+  stopping: 1,
+  starting: 2,
+  running: 3,
+};
+
+/**
+ * 支持订阅的资源，以及读取资源所需的工具
+ * - mcsm://daemons: 守护进程上线和离线
+ * - mcsm://daemon/{daemonId}/instances: 守护进程上线和离线，以及其实例的状态变化
+ * - mcsm://instance/{daemonId}/{instanceId}: 实例的状态变化
+ */
+const SUBSCRIBABLE_RESOURCES = [
+  { template: new UriTemplate("mcsm://daemons"), toolName: "get-daemons" },
+  {
+    template: new UriTemplate("mcsm://daemon/{daemonId}/instances"),
+    toolName: "get-instances",
+  },
+  {
+    template: new UriTemplate("mcsm://instance/{daemonId}/{instanceId}"),
+    toolName: "get-instance-detail",
+  },
+];
+
+/**
+ * 上传和下载文件的最大字节数，文件内容以base64编码在工具参数和结果中传输
+ */
+const MAX_FILE_TRANSFER_BYTES = 10 * 1024 * 1024;
+
+/**
+ * find-files同时读取的目录数量，避免遍历大目录时同时向守护进程发送大量请求
+ */
+const FIND_FILES_CONCURRENCY = 4;
+
+/**
+ * find-files最多读取的目录数量
+ */
+const FIND_FILES_MAX_DIRECTORIES = 2000;
+
+/**
+ * find-files搜索文件内容时最多读取的文件数量和单个文件的最大字节数
+ */
+const FIND_FILES_MAX_CONTENT_FILES = 200;
+const FIND_FILES_MAX_CONTENT_BYTES = 1024 * 1024;
+
+/**
+ * 上传、移动或复制覆盖已有文件前保存版本的最大字节数，更大的文件和二进制文件不保存版本
+ */
+const SNAPSHOT_MAX_BYTES = 1024 * 1024;
+
+/**
+ * 用户角色与面板权限等级的对应关系
+ */
+const USER_ROLES = {
+  user: 1,
+  admin: 10,
+  banned: -1,
+} as const;
+
+type UserRole = keyof typeof USER_ROLES;
+
+/**
+ * 获取权限等级对应的用户角色名称
+ * @param permission 权限等级
+ */
+function getUserRole(permission: number | undefined): UserRole | "unknown" {
+  return (
+    (Object.keys(USER_ROLES) as UserRole[]).find(
+      (role) => USER_ROLES[role] === permission
+    ) ?? "unknown"
+  );
+}
+
+/**
+ * 提取用户信息中可以展示的字段
+ * 只保留白名单中的字段，密码哈希、盐值、API密钥和两步验证密钥等敏感字段不会出现在工具结果中
+ * @param user 面板返回的用户
+ */
+function formatUser(user: User) {
+  return {
+    uuid: user.uuid,
+    userName: user.userName,
+    role: getUserRole(user.permission),
+    registerTime: user.registerTime,
+    loginTime: user.loginTime,
+    open2FA: user.open2FA,
+    instances: (user.instances ?? []).map((instance) => ({
+      instanceId: instance.instanceUuid,
+      daemonId: instance.daemonId,
+    })),
+  };
+}
+
+/**
+ * 单个面板的汇总结果
+ */
+type PanelResult<T> =
+  | { panel: string; data: T }
+  | { panel: string; error: string };
+
+/**
+ * 将面板返回的时间格式化为ISO 8601字符串
+ * @param value 时间戳或时间字符串
+ * @returns 时间缺失或无效时返回undefined
+ */
+function formatDatetime(value: string | number | undefined) {
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * 解码base64字符串
+ * Buffer.from会忽略非法字符，因此先校验格式，避免上传损坏的文件
+ * @param value base64字符串，可以包含换行
+ */
+function decodeBase64(value: string): Buffer {
+  const normalized = value.replace(/\s+/g, "");
+  if (
+    normalized.length % 4 !== 0 ||
+    !/^[A-Za-z0-9+/]*={0,2}$/.test(normalized)
+  ) {
+    throw new Error("contentBase64 is not valid base64");
+  }
+  return Buffer.from(normalized, "base64");
+}
 
 /**
  * MCSManager MCP服务器
  */
 export class MCSManagerMCPServer {
-  private server: McpServer;
-  private api: MCSManagerAPI;
+  private apis: { [panel: string]: MCSManagerAPI } = {};
+  private resolvers: { [panel: string]: InstanceResolver } = {};
   private app: express.Application;
   private config: MCPServerConfig;
-  private transports: { [sessionId: string]: StreamableHTTPServerTransport } =
-    {};
+  private sessions: { [sessionId: string]: McpSession } = {};
+  private confirmations: ConfirmationStore;
+  private auditLog: AuditLog;
+  private metricsStore: MetricsStore;
+  private fileVersions: FileVersionStore;
+  private metricsSampler: MetricsSampler;
+  private toolMetrics = new ToolCallMetrics();
+  private subscriptions: ResourceSubscriptions;
+  private toolCallContext = new AsyncLocalStorage<ToolCallContext>();
 
   /**
    * 创建MCSManager MCP服务器
@@ -23,26 +285,335 @@ export class MCSManagerMCPServer {
    */
   constructor(config: MCPServerConfig) {
     this.config = config;
-    this.api = new MCSManagerAPI(config.mcsmanagerUrl, config.apiKey);
+    for (const panel of config.panels) {
+      this.apis[panel.name] = new MCSManagerAPI(panel.url, panel.apiKey, {
+        timeoutSeconds: config.requestTimeout,
+        retries: config.requestRetries,
+        circuitBreakerThreshold: config.circuitBreakerThreshold,
+        circuitBreakerCooldownSeconds: config.circuitBreakerCooldown,
+        cacheTtlSeconds: config.cacheTtl,
+      });
+      this.resolvers[panel.name] = new InstanceResolver(this.apis[panel.name]);
+    }
+    this.confirmations = new ConfirmationStore(config.confirmationTtl);
+    const db = openDatabase(config.databasePath);
+    this.auditLog = new AuditLog(db);
+    this.metricsStore = new MetricsStore(db);
+    this.fileVersions = new FileVersionStore(db, config.fileVersions);
+    this.metricsSampler = new MetricsSampler(
+      this.apis,
+      config.accessPolicy,
+      this.metricsStore,
+      config.metricsInterval,
+      config.metricsRetention
+    );
+    this.subscriptions = new ResourceSubscriptions(
+      (uri) => this.fetchResourceState(uri),
+      config.subscriptionPollInterval
+    );
+
+    // 记录工具调用期间面板的响应状态码
+    for (const api of Object.values(this.apis)) {
+      api.onResponse((status) => {
+        const context = this.toolCallContext.getStore();
+        if (context) {
+          context.panelStatus = status;
+        }
+      });
+    }
     this.app = express();
     this.app.use(express.json());
+  }
 
-    // 创建MCP服务器
-    this.server = new McpServer({
-      name: "MCSManager MCP Server",
-      version: "1.0.0",
-    });
+  /**
+   * 为会话创建MCP服务器
+   * 每个会话拥有独立的服务器实例，只注册其权限范围内的工具
+   * @param identity 会话身份
+   */
+  private createMcpServer(identity: SessionIdentity): McpServer {
+    const server = new McpServer(
+      {
+        name: "MCSManager MCP Server",
+        version: "1.0.0",
+      },
+      {
+        capabilities: {
+          resources: { subscribe: true },
+        },
+      }
+    );
 
-    // 注册资源和工具
-    this.registerResources();
-    this.registerTools();
+    // 注册资源、资源订阅和工具
+    this.registerResources(server, identity);
+    this.registerSubscriptions(server, identity);
+    this.registerTools(server, identity);
+
+    return server;
   }
 
   /**
    * 注册资源
+   *
+   * 资源使用默认面板，让客户端无需调用工具即可把面板状态作为上下文：
+   * - mcsm://overview: 面板概览
+   * - mcsm://daemons: 守护进程列表
+   * - mcsm://daemon/{daemonId}/instances: 守护进程的实例列表
+   * - mcsm://instance/{daemonId}/{instanceId}: 实例详情
+   * - mcsm://instance/{daemonId}/{instanceId}/file/{path}: 实例文件内容
+   *
+   * 每个资源对应一个读取工具，只有会话可以使用该工具时才注册资源
+   * 资源模板的变量支持补全，访问被禁止的守护进程和实例既不会被补全也无法读取
+   * @param server MCP服务器
+   * @param identity 会话身份
+   */
+  private registerResources(server: McpServer, identity: SessionIdentity) {
+    const policy = this.config.accessPolicy;
+    const panel = this.config.defaultPanel;
+    const canUse = (toolName: string) =>
+      hasScope(identity.scope, getToolScope(toolName)) &&
+      isToolAllowed(policy, toolName);
+
+    // 以JSON格式返回资源内容
+    const json = (uri: URL, data: unknown) => ({
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: "application/json",
+          text: JSON.stringify(data, null, 2),
+        },
+      ],
+    });
+
+    // 补全守护进程ID
+    const completeDaemonId = async (value: string) => {
+      try {
+        const daemons = await this.fetchDaemons(panel);
+        return daemons
+          .map((daemon) => daemon.id as string)
+          .filter((id) => id.startsWith(value));
+      } catch {
+        return [];
+      }
+    };
+
+    // 补全实例ID，已填写daemonId时只补全该守护进程的实例
+    const completeInstanceId = async (
+      value: string,
+      context?: { arguments?: Record<string, string> }
+    ) => {
+      const daemonId = context?.arguments?.daemonId;
+      try {
+        const entries = await this.resolvers[panel].list(
+          (entry) =>
+            (!daemonId || entry.daemonId === daemonId) &&
+            isInstanceAllowed(policy, entry.daemonId, entry.instanceId)
+        );
+        return entries
+          .map((entry) => entry.instanceId)
+          .filter((id) => id.startsWith(value));
+      } catch {
+        return [];
+      }
+    };
+
+    // 补全文件路径，列出已填写路径所在目录中的文件，目录以/结尾
+    const completePath = async (
+      value: string,
+      context?: { arguments?: Record<string, string> }
+    ) => {
+      const daemonId = context?.arguments?.daemonId;
+      const instanceId = context?.arguments?.instanceId;
+      if (
+        !daemonId ||
+        !instanceId ||
+        !isInstanceAllowed(policy, daemonId, instanceId)
+      ) {
+        return [];
+      }
+
+      const separator = value.lastIndexOf("/");
+      const directory = value.slice(0, separator + 1);
+      try {
+        const fileList = await this.getApi(panel).getFileList(
+          instanceId,
+          daemonId,
+          `/${directory}`
+        );
+        return fileList.items
+          .map(
+            (file) => `${directory}${file.name}${file.type === 0 ? "/" : ""}`
+          )
+          .filter((path) => path.startsWith(value));
+      } catch {
+        return [];
+      }
+    };
+
+    if (canUse("get-overview")) {
+      server.resource(
+        "overview",
+        "mcsm://overview",
+        {
+          description: "MCSManager面板概览信息",
+          mimeType: "application/json",
+        },
+        async (uri) => json(uri, await this.fetchOverview(panel))
+      );
+    }
+
+    if (canUse("get-daemons")) {
+      server.resource(
+        "daemons",
+        "mcsm://daemons",
+        {
+          description: "守护进程列表",
+          mimeType: "application/json",
+        },
+        async (uri) => json(uri, await this.fetchDaemons(panel))
+      );
+    }
+
+    if (canUse("get-instances")) {
+      server.resource(
+        "daemon-instances",
+        new ResourceTemplate("mcsm://daemon/{daemonId}/instances", {
+          list: async () => ({
+            resources: (await this.fetchDaemons(panel)).map((daemon) => ({
+              uri: `mcsm://daemon/${daemon.id}/instances`,
+              name: `${daemon.name} instances`,
+              mimeType: "application/json",
+            })),
+          }),
+          complete: {
+            daemonId: completeDaemonId,
+          },
+        }),
+        {
+          description: "守护进程的实例列表",
+          mimeType: "application/json",
+        },
+        async (uri, variables) => {
+          const daemonId = decodeURIComponent(String(variables.daemonId));
+          this.checkResourceAccess(daemonId);
+          return json(uri, await this.fetchAllInstances(panel, daemonId));
+        }
+      );
+    }
+
+    if (canUse("get-instance-detail")) {
+      server.resource(
+        "instance",
+        new ResourceTemplate("mcsm://instance/{daemonId}/{instanceId}", {
+          list: async () => ({
+            resources: (
+              await this.resolvers[panel].list((entry) =>
+                isInstanceAllowed(policy, entry.daemonId, entry.instanceId)
+              )
+            ).map((entry) => ({
+              uri: `mcsm://instance/${entry.daemonId}/${entry.instanceId}`,
+              name: `${entry.daemonName}/${entry.instanceName}`,
+              mimeType: "application/json",
+            })),
+          }),
+          complete: {
+            daemonId: completeDaemonId,
+            instanceId: completeInstanceId,
+          },
+        }),
+        {
+          description: "实例详情",
+          mimeType: "application/json",
+        },
+        async (uri, variables) => {
+          const daemonId = decodeURIComponent(String(variables.daemonId));
+          const instanceId = decodeURIComponent(String(variables.instanceId));
+          this.checkResourceAccess(daemonId, instanceId);
+          return json(
+            uri,
+            await this.fetchInstanceDetail(panel, daemonId, instanceId)
+          );
+        }
+      );
+    }
+
+    if (canUse("get-file-content")) {
+      server.resource(
+        "instance-file",
+        new ResourceTemplate(
+          "mcsm://instance/{daemonId}/{instanceId}/file/{+path}",
+          {
+            list: undefined,
+            complete: {
+              daemonId: completeDaemonId,
+              instanceId: completeInstanceId,
+              path: completePath,
+            },
+          }
+        ),
+        {
+          description: "实例文件内容，path为相对于实例根目录的路径",
+          mimeType: "text/plain",
+        },
+        async (uri, variables) => {
+          const daemonId = decodeURIComponent(String(variables.daemonId));
+          const instanceId = decodeURIComponent(String(variables.instanceId));
+          const path = normalizeInstancePath(
+            decodeURIComponent(String(variables.path))
+          );
+          this.checkResourceAccess(daemonId, instanceId);
+
+          const content = await this.getApi(panel).getFileContent(
+            instanceId,
+            daemonId,
+            path
+          );
+          return {
+            contents: [
+              {
+                uri: uri.href,
+                mimeType: "text/plain",
+                text: content,
+              },
+            ],
+          };
+        }
+      );
+    }
+  }
+
+  /**
+   * 注册资源订阅
+   * 订阅的资源由共享的轮询器定期检查，状态变化时发送notifications/resources/updated
+   * 会话关闭时自动退订该会话的所有资源
+   * @param server MCP服务器
+   * @param identity 会话身份
    */
-  private registerResources() {
-    // 不再注册资源，所有资源都改为工具
+  private registerSubscriptions(server: McpServer, identity: SessionIdentity) {
+    server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const { uri } = request.params;
+      const resource = this.parseSubscribableUri(uri);
+      if (
+        !hasScope(identity.scope, getToolScope(resource.toolName)) ||
+        !isToolAllowed(this.config.accessPolicy, resource.toolName)
+      ) {
+        throw new Error(`Resource ${uri} is not available to this session`);
+      }
+
+      await this.subscriptions.subscribe(uri, server, () => {
+        server.server.sendResourceUpdated({ uri }).catch((error) => {
+          console.error(`Error sending update for ${uri}:`, error);
+        });
+      });
+      return {};
+    });
+
+    server.server.setRequestHandler(
+      UnsubscribeRequestSchema,
+      async (request) => {
+        this.subscriptions.unsubscribe(request.params.uri, server);
+        return {};
+      }
+    );
   }
 
   /**
@@ -52,43 +623,144 @@ export class MCSManagerMCPServer {
    * 1. 大多数工具需要daemonId参数，这是守护进程的唯一标识符
    * 2. daemonId可以通过get-daemons工具获取，返回结果中的id字段即为daemonId
    * 3. 实例相关操作需要instanceId参数，可通过get-instances工具获取
-   * 4. 所有必填参数不可省略，否则将导致操作失败
-   * 5. 建议先使用get-daemons获取守护进程列表，再使用get-instances获取实例列表
+   * 4. 实例相关操作也可以只提供instance参数（实例名称、守护进程名称/实例名称或实例ID前缀），由服务器解析
+   * 5. 所有必填参数不可省略，否则将导致操作失败
+   * 6. 建议先使用get-daemons获取守护进程列表，再使用get-instances获取实例列表
+   *
+   * 超出会话权限范围或被访问策略禁止的工具不会被注册，因此既不会出现在工具列表中也无法调用
+   * 访问被禁止的守护进程或实例时，工具会直接返回错误
+   * 每次工具调用都会记录到审计日志
+   * @param server MCP服务器
+   * @param identity 会话身份
    */
-  private registerTools() {
-    // 获取守护进程列表工具
-    this.server.tool(
-      "get-daemons",
-      "获取所有守护进程列表 - 无需参数，返回所有可用的守护进程信息，包含daemonId(uuid)等重要数据",
+  private registerTools(server: McpServer, identity: SessionIdentity) {
+    const tool = <S extends ZodRawShape>(
+      name: string,
+      description: string,
+      schema: S,
+      callback: ToolCallback<S>
+    ) => {
+      if (
+        !hasScope(identity.scope, getToolScope(name)) ||
+        !isToolAllowed(this.config.accessPolicy, name)
+      ) {
+        return undefined;
+      }
+      const wrapped = (
+        args: ShapeOutput<S>,
+        extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+      ) =>
+        this.runTool(name, identity, args, extra, async () => {
+          const denied = this.checkTargetAccess(args);
+          return denied ?? callback(args, extra);
+        });
+      // ToolCallback<S>是依赖S的条件类型，在泛型函数中无法展开，只能断言
+      return server.tool(name, description, schema, wrapped as ToolCallback<S>);
+    };
+
+    // 实例相关工具通用的实例参数
+    const instanceParams = {
+      daemonId: z
+        .string()
+        .optional()
+        .describe(
+          "守护进程ID - 可选，从get-daemons返回的id字段获取，与instanceId一起使用"
+        ),
+      instanceId: z
+        .string()
+        .optional()
+        .describe(
+          "实例ID - 可选，从get-instances返回的id字段获取，与daemonId一起使用"
+        ),
+      instance: z
+        .string()
+        .optional()
+        .describe(
+          "实例引用 - 可选，可代替daemonId和instanceId，支持实例名称、守护进程名称/实例名称 或 实例ID前缀，例如：survival 或 node-1/survival"
+        ),
+    };
+
+    // 所有工具通用的面板参数
+    const panelParam = z
+      .string()
+      .optional()
+      .describe(
+        `面板名称 - 可选，默认为${this.config.defaultPanel}，可通过list-panels工具获取`
+      );
+    const freshParam = z
+      .boolean()
+      .optional()
+      .describe("获取最新数据 - 可选，为true时忽略短时间缓存，直接从面板获取");
+
+    // 获取面板列表工具
+    tool(
+      "list-panels",
+      "获取已配置的MCSManager面板列表 - 无需参数，返回面板名称和地址，其中的name可用于其他工具的panel参数",
       {},
       async () => {
+        const panelsInfo = this.config.panels.map((panel) => ({
+          name: panel.name,
+          url: panel.url,
+          default: panel.name === this.config.defaultPanel,
+        }));
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(panelsInfo, null, 2),
+            },
+          ],
+        };
+      }
+    );
+
+    // 获取守护进程列表工具
+    tool(
+      "get-daemons",
+      "获取所有守护进程列表 - 无需参数，返回所有可用的守护进程信息，包含daemonId(uuid)等重要数据，circuitBreaker字段为熔断状态(open时对该守护进程的请求会直接失败)；allPanels为true时汇总所有面板",
+      {
+        panel: panelParam,
+        allPanels: z
+          .boolean()
+          .optional()
+          .describe(
+            "汇总所有面板 - 可选，为true时返回所有已配置面板的守护进程"
+          ),
+        fresh: freshParam,
+      },
+      async ({ panel, allPanels, fresh }) => {
         try {
-          // 使用overview接口获取守护进程列表
-          const response = await this.api.getOverview();
-          if (response.status !== 200) {
-            throw new Error(`Failed to get daemons: ${response.status}`);
-          }
+          if (allPanels) {
+            const results = await this.collectFromPanels((name) =>
+              this.fetchDaemons(name, fresh)
+            );
+            const daemonsInfo = {
+              daemons: results.flatMap((result) =>
+                "data" in result
+                  ? result.data.map((daemon) => ({
+                      panel: result.panel,
+                      ...daemon,
+                    }))
+                  : []
+              ),
+              errors: results.filter((result) => "error" in result),
+            };
 
-          // 从overview中提取remote字段作为守护进程列表
-          const daemonsInfo = response.data.remote.map((daemon: any) => {
             return {
-              id: daemon.uuid, // 守护进程ID，用于其他工具的daemonId参数
-              name: daemon.remarks,
-              version: daemon.version,
-              status: daemon.available ? "online" : "offline",
-              instances: {
-                running: daemon.instance.running,
-                total: daemon.instance.total,
-              },
-              system: {
-                type: daemon.system.type,
-                platform: daemon.system.platform,
-                hostname: daemon.system.hostname,
-                cpuUsage: daemon.system.cpuUsage,
-                memUsage: daemon.system.memUsage,
-              },
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(daemonsInfo, null, 2),
+                },
+              ],
             };
-          });
+          }
+
+          const daemonsInfo = await this.fetchDaemons(
+            this.resolvePanel(panel),
+            fresh
+          );
 
           return {
             content: [
@@ -116,40 +788,153 @@ export class MCSManagerMCPServer {
     );
 
     // 获取实例列表工具
-    this.server.tool(
+    tool(
       "get-instances",
-      "获取指定守护进程的实例列表 - 必须提供daemonId参数(可通过get-daemons工具获取)",
+      "获取指定守护进程的实例列表 - 必须提供daemonId参数(可通过get-daemons工具获取)，支持按名称、状态、标签和类型过滤，支持分页和排序，返回结果包含total和maxPage，page小于maxPage时说明还有更多实例；排序、类型过滤和访问策略都作用于全部实例，total和maxPage为过滤后的数量",
       {
+        panel: panelParam,
         daemonId: z
           .string()
           .describe("守护进程ID - 必填，从get-daemons返回的id字段获取"),
+        name: z.string().optional().describe("实例名称 - 可选，按名称模糊匹配"),
+        status: z
+          .enum(["busy", "stopped", "stopping", "starting", "running"])
+          .optional()
+          .describe("实例状态 - 可选"),
+        tag: z
+          .array(z.string())
+          .optional()
+          .describe("实例标签 - 可选，只返回带有这些标签的实例"),
+        type: z
+          .string()
+          .optional()
+          .describe("实例类型 - 可选，例如：minecraft/java，按前缀匹配"),
+        page: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe("页码 - 可选，从1开始，默认1"),
+        pageSize: z
+          .number()
+          .int()
+          .min(1)
+          .max(100)
+          .optional()
+          .describe("每页大小 - 可选，默认10，最大100"),
+        allPages: z
+          .boolean()
+          .optional()
+          .describe("获取所有页 - 可选，为true时忽略page参数并返回全部实例"),
+        sortBy: z
+          .enum(["name", "status", "created"])
+          .optional()
+          .describe("排序字段 - 可选，默认保持面板返回的顺序"),
+        sortOrder: z
+          .enum(["asc", "desc"])
+          .optional()
+          .describe("排序方向 - 可选，默认asc"),
+        fresh: freshParam,
       },
-      async ({ daemonId }) => {
+      async ({
+        panel,
+        daemonId,
+        name,
+        status,
+        tag,
+        type,
+        page = 1,
+        pageSize = 10,
+        allPages,
+        sortBy,
+        sortOrder = "asc",
+        fresh,
+      }) => {
         try {
-          const response = await this.api.getInstances(daemonId);
-          if (response.status !== 200) {
-            throw new Error(`Failed to get instances: ${response.status}`);
+          const api = this.getApi(panel);
+          const filters = {
+            instanceName: name,
+            status: status === undefined ? undefined : INSTANCE_STATUS[status],
+            tag,
+          };
+
+          const policy = this.config.accessPolicy;
+          // 排序、类型过滤和实例访问策略在本地进行，需要先获取全部实例再分页，
+          // 否则排序只作用于当前页，total和maxPage也会包含被过滤的实例
+          const local =
+            sortBy !== undefined ||
+            type !== undefined ||
+            policy.instanceAllowList.length > 0 ||
+            policy.instanceDenyList.length > 0;
+          const fetchAll = allPages || local;
+
+          // 获取所有页时使用最大的每页大小以减少请求次数
+          const requestPageSize = fetchAll ? 100 : pageSize;
+          let currentPage = fetchAll ? 1 : page;
+          let maxPage = 1;
+          let total = 0;
+          const instances: Instance[] = [];
+          do {
+            const instancePage = await api.getInstances(
+              daemonId,
+              currentPage,
+              requestPageSize,
+              filters,
+              { fresh }
+            );
+
+            instances.push(...instancePage.data);
+            maxPage = instancePage.maxPage ?? 1;
+            total = instancePage.total ?? instances.length;
+            currentPage++;
+          } while (fetchAll && currentPage <= maxPage);
+
+          let instancesInfo = instances
+            .filter(
+              (instance) =>
+                isInstanceAllowed(policy, daemonId, instance.instanceUuid) &&
+                (!type || String(instance.config.type).startsWith(type))
+            )
+            .map((instance) => this.formatInstanceSummary(instance));
+
+          if (sortBy) {
+            const direction = sortOrder === "desc" ? -1 : 1;
+            const key = (instance: (typeof instancesInfo)[number]) =>
+              sortBy === "status"
+                ? INSTANCE_STATUS[instance.status] ?? -2
+                : sortBy === "created"
+                ? instance.created ?? ""
+                : String(instance.name ?? "").toLowerCase();
+            instancesInfo.sort((a, b) =>
+              key(a) < key(b) ? -direction : key(a) > key(b) ? direction : 0
+            );
           }
 
-          const instancesInfo = response.data.data.map((instance: any) => {
-            return {
-              id: instance.instanceUuid, // 实例ID，用于其他工具的instanceId参数
-              name: instance.config.nickname,
-              status: this.getStatusText(instance.status),
-              type: instance.config.type,
-              startCommand: instance.config.startCommand,
-              stopCommand: instance.config.stopCommand,
-              cwd: instance.config.cwd,
-              processInfo: instance.processInfo,
-              created: new Date(instance.config.createDatetime).toISOString(),
-            };
-          });
+          if (fetchAll) {
+            total = instancesInfo.length;
+            maxPage = allPages ? 1 : Math.max(1, Math.ceil(total / pageSize));
+            if (!allPages) {
+              instancesInfo = instancesInfo.slice(
+                (page - 1) * pageSize,
+                page * pageSize
+              );
+            }
+          }
+
+          const result = {
+            total,
+            page: allPages ? 1 : page,
+            pageSize: allPages ? total : pageSize,
+            maxPage,
+            hasMore: !allPages && page < maxPage,
+            instances: instancesInfo,
+          };
 
           return {
             content: [
               {
                 type: "text",
-                text: JSON.stringify(instancesInfo, null, 2),
+                text: JSON.stringify(result, null, 2),
               },
             ],
           };
@@ -174,45 +959,26 @@ export class MCSManagerMCPServer {
     );
 
     // 获取实例详情工具
-    this.server.tool(
+    tool(
       "get-instance-detail",
-      "获取指定实例的详细信息 - 必须提供daemonId和instanceId两个参数",
+      "获取指定实例的详细信息 - 通过instance或daemonId+instanceId指定实例",
       {
-        daemonId: z
-          .string()
-          .describe("守护进程ID - 必填，从get-daemons返回的id字段获取"),
-        instanceId: z
-          .string()
-          .describe("实例ID - 必填，从get-instances返回的id字段获取"),
+        panel: panelParam,
+        ...instanceParams,
+        fresh: freshParam,
       },
-      async ({ daemonId, instanceId }) => {
+      async ({ panel, fresh, ...ref }) => {
         try {
-          const response = await this.api.getInstanceDetail(
+          const { daemonId, instanceId } = await this.resolveInstance(
+            panel,
+            ref
+          );
+          const instanceInfo = await this.fetchInstanceDetail(
+            this.resolvePanel(panel),
+            daemonId,
             instanceId,
-            daemonId
+            fresh
           );
-          if (response.status !== 200) {
-            throw new Error(
-              `Failed to get instance details: ${response.status}`
-            );
-          }
-
-          const instance = response.data;
-          const instanceInfo = {
-            id: instance.instanceUuid,
-            name: instance.config.nickname,
-            status: this.getStatusText(instance.status),
-            type: instance.config.type,
-            startCommand: instance.config.startCommand,
-            stopCommand: instance.config.stopCommand,
-            cwd: instance.config.cwd,
-            processInfo: instance.processInfo,
-            created: new Date(instance.config.createDatetime).toISOString(),
-            lastModified: new Date(instance.config.lastDatetime).toISOString(),
-            fileEncoding: instance.config.fileCode,
-            processType: instance.config.processType,
-            info: instance.info,
-          };
 
           return {
             content: [
@@ -224,7 +990,7 @@ export class MCSManagerMCPServer {
           };
         } catch (error) {
           console.error(
-            `Error fetching instance ${instanceId} details:`,
+            `Error fetching instance ${this.formatInstanceRef(ref)} details:`,
             error
           );
           return {
@@ -243,36 +1009,36 @@ export class MCSManagerMCPServer {
     );
 
     // 获取文件列表工具
-    this.server.tool(
+    tool(
       "get-files",
-      "获取指定实例的文件列表 - 必须提供daemonId和instanceId，path参数可选(默认为根目录)",
+      "获取指定实例的文件列表 - 通过instance或daemonId+instanceId指定实例，path参数可选(默认为根目录)",
       {
-        daemonId: z
-          .string()
-          .describe("守护进程ID - 必填，从get-daemons返回的id字段获取"),
-        instanceId: z
-          .string()
-          .describe("实例ID - 必填，从get-instances返回的id字段获取"),
+        panel: panelParam,
+        ...instanceParams,
         path: z
           .string()
           .describe("文件路径 - 必填，完整的文件路径，例如：/plugins"),
+        fresh: freshParam,
       },
-      async ({ daemonId, instanceId, path }) => {
+      async ({ panel, path, fresh, ...ref }) => {
         try {
+          const { daemonId, instanceId } = await this.resolveInstance(
+            panel,
+            ref
+          );
           const targetPath = path || "";
-          const response = await this.api.getFileList(
+          const fileList = await this.getApi(panel).getFileList(
             instanceId,
             daemonId,
-            targetPath
+            targetPath,
+            0,
+            100,
+            { fresh }
           );
-          if (response.status !== 200) {
-            throw new Error(`Failed to get file list: ${response.status}`);
-          }
 
-          const fileList = response.data;
           const filesInfo = {
             path: fileList.absolutePath,
-            files: fileList.items.map((file: any) => ({
+            files: fileList.items.map((file) => ({
               name: file.name,
               size: file.size,
               time: file.time,
@@ -291,7 +1057,7 @@ export class MCSManagerMCPServer {
           };
         } catch (error) {
           console.error(
-            `Error fetching files for instance ${instanceId}:`,
+            `Error fetching files for instance ${this.formatInstanceRef(ref)}:`,
             error
           );
           return {
@@ -309,53 +1075,255 @@ export class MCSManagerMCPServer {
       }
     );
 
-    // 获取文件内容工具
-    this.server.tool(
-      "get-file-content",
-      "获取指定实例的文件内容 - 必须提供daemonId、instanceId和filePath三个参数",
+    // 递归查找文件工具
+    tool(
+      "find-files",
+      "在指定实例的目录树中递归查找文件 - 通过instance或daemonId+instanceId指定实例，按glob模式、大小和修改时间过滤，可选在匹配的文本文件中搜索内容，例如查找某个插件的配置文件",
       {
-        daemonId: z
+        panel: panelParam,
+        ...instanceParams,
+        path: z
           .string()
-          .describe("守护进程ID - 必填，从get-daemons返回的id字段获取"),
-        instanceId: z
+          .optional()
+          .describe("查找的起始目录 - 可选，默认为实例根目录，例如：/plugins"),
+        pattern: z
           .string()
-          .describe("实例ID - 必填，从get-instances返回的id字段获取"),
-        filePath: z
+          .optional()
+          .describe(
+            "glob模式 - 可选，支持*、**、?、[abc]和{a,b}；不包含/时匹配文件名，例如：*.yml 或 config.{yml,yaml}，包含/时匹配相对于起始目录的路径，例如：plugins/**/config.yml"
+          ),
+        type: z
+          .enum(["file", "directory", "any"])
+          .optional()
+          .describe("查找的类型 - 可选，默认file"),
+        minSize: z
+          .number()
+          .int()
+          .min(0)
+          .optional()
+          .describe("最小文件大小（字节） - 可选"),
+        maxSize: z
+          .number()
+          .int()
+          .min(0)
+          .optional()
+          .describe("最大文件大小（字节） - 可选"),
+        modifiedAfter: z
           .string()
+          .datetime({ offset: true })
+          .optional()
           .describe(
-            "文件路径 - 必填，完整的文件路径，例如：/server.properties"
+            "只查找此时间之后修改的文件 - 可选，ISO 8601格式，例如：2024-01-01T00:00:00Z"
+          ),
+        modifiedBefore: z
+          .string()
+          .datetime({ offset: true })
+          .optional()
+          .describe("只查找此时间之前修改的文件 - 可选，ISO 8601格式"),
+        maxDepth: z
+          .number()
+          .int()
+          .min(1)
+          .max(50)
+          .optional()
+          .describe("最大深度 - 可选，起始目录下的直接子项为1，默认10"),
+        maxResults: z
+          .number()
+          .int()
+          .min(1)
+          .max(1000)
+          .optional()
+          .describe("最多返回的结果数量 - 可选，默认100"),
+        contentPattern: z
+          .string()
+          .optional()
+          .describe(
+            "内容正则表达式 - 可选，只返回内容匹配的文本文件及匹配的行；二进制文件和超过1MB的文件会被跳过"
           ),
+        ignoreCase: z
+          .boolean()
+          .optional()
+          .describe("忽略大小写 - 可选，同时作用于pattern和contentPattern"),
       },
-      async ({ daemonId, instanceId, filePath }) => {
+      async ({
+        panel,
+        path,
+        pattern,
+        type = "file",
+        minSize,
+        maxSize,
+        modifiedAfter,
+        modifiedBefore,
+        maxDepth = 10,
+        maxResults = 100,
+        contentPattern,
+        ignoreCase,
+        ...ref
+      }) => {
         try {
-          if (!filePath) {
-            throw new Error("File path is required");
-          }
+          const root = normalizeInstancePath(path ?? "/");
+          const matchPath = pattern
+            ? createPathMatcher(pattern, root, ignoreCase)
+            : () => true;
+          const after = modifiedAfter ? Date.parse(modifiedAfter) : undefined;
+          const before = modifiedBefore
+            ? Date.parse(modifiedBefore)
+            : undefined;
+          const searchType = contentPattern !== undefined ? "file" : type;
+          const { daemonId, instanceId } = await this.resolveInstance(
+            panel,
+            ref
+          );
+          const api = this.getApi(panel);
 
-          const response = await this.api.getFileContent(
-            instanceId,
-            daemonId,
-            filePath
+          // 搜索内容时先收集候选文件，内容匹配的文件才计入结果
+          const limit =
+            contentPattern !== undefined
+              ? FIND_FILES_MAX_CONTENT_FILES
+              : maxResults;
+          const found: WalkEntry[] = [];
+          const walk = await walkDirectory(
+            root,
+            (directory) =>
+              this.listDirectory(panel, daemonId, instanceId, directory),
+            {
+              maxDepth,
+              concurrency: FIND_FILES_CONCURRENCY,
+              maxDirectories: FIND_FILES_MAX_DIRECTORIES,
+            },
+            (entry) => {
+              if (
+                (searchType !== "any" && entry.type !== searchType) ||
+                !matchPath(entry)
+              ) {
+                return true;
+              }
+              if (entry.type === "file") {
+                if (minSize !== undefined && (entry.size ?? 0) < minSize) {
+                  return true;
+                }
+                if (
+                  maxSize !== undefined &&
+                  (entry.size ?? Infinity) > maxSize
+                ) {
+                  return true;
+                }
+              }
+              if (after !== undefined || before !== undefined) {
+                const time = entry.time ? Date.parse(entry.time) : NaN;
+                if (
+                  isNaN(time) ||
+                  (after !== undefined && time < after) ||
+                  (before !== undefined && time > before)
+                ) {
+                  return true;
+                }
+              }
+              if (found.length >= limit) {
+                return false;
+              }
+              found.push(entry);
+              return true;
+            }
           );
-          if (response.status !== 200) {
-            throw new Error(`Failed to get file content: ${response.status}`);
+
+          const results: Array<Record<string, unknown>> = [];
+          let truncated = walk.truncated;
+          let skipped = 0;
+          if (contentPattern === undefined) {
+            results.push(
+              ...found.map((entry) => ({
+                path: entry.path,
+                type: entry.type,
+                size: entry.size,
+                modified: entry.time,
+              }))
+            );
+          } else {
+            // 先检查正则表达式，避免读取文件后才报错
+            searchLines({ firstLine: 1, lines: [] }, contentPattern, {
+              context: 0,
+              maxMatches: 1,
+              ignoreCase,
+            });
+            const candidates = found.filter(
+              (entry) => (entry.size ?? 0) <= FIND_FILES_MAX_CONTENT_BYTES
+            );
+            skipped = found.length - candidates.length;
+            const matches = await mapWithConcurrency(
+              candidates,
+              FIND_FILES_CONCURRENCY,
+              async (entry) => {
+                try {
+                  const content = await api.getFileContent(
+                    instanceId,
+                    daemonId,
+                    entry.path
+                  );
+                  if (isBinaryContent(content)) {
+                    skipped++;
+                    return undefined;
+                  }
+                  const result = searchLines(
+                    { firstLine: 1, lines: splitLines(content) },
+                    contentPattern,
+                    { context: 0, maxMatches: 5, ignoreCase }
+                  );
+                  return result.matches > 0 ? result : undefined;
+                } catch (error) {
+                  walk.errors.push(
+                    `${entry.path}: ${
+                      error instanceof Error ? error.message : String(error)
+                    }`
+                  );
+                  return undefined;
+                }
+              }
+            );
+            for (const [index, match] of matches.entries()) {
+              if (!match) {
+                continue;
+              }
+              if (results.length >= maxResults) {
+                truncated = true;
+                break;
+              }
+              const entry = candidates[index];
+              results.push({
+                path: entry.path,
+                size: entry.size,
+                modified: entry.time,
+                matches: match.text.split("\n"),
+              });
+            }
           }
 
+          const result = {
+            path: root,
+            results,
+            directoriesScanned: walk.directories,
+            truncated,
+            ...(skipped > 0 ? { skippedFiles: skipped } : {}),
+            ...(walk.errors.length > 0 ? { errors: walk.errors } : {}),
+          };
           return {
             content: [
               {
                 type: "text",
-                text: response.data,
+                text: JSON.stringify(result, null, 2),
               },
             ],
           };
         } catch (error) {
-          console.error(`Error fetching file content for ${filePath}:`, error);
+          console.error(
+            `Error finding files for instance ${this.formatInstanceRef(ref)}:`,
+            error
+          );
           return {
             content: [
               {
                 type: "text",
-                text: `Error fetching file content: ${
+                text: `Error finding files: ${
                   error instanceof Error ? error.message : String(error)
                 }`,
               },
@@ -366,79 +1334,235 @@ export class MCSManagerMCPServer {
       }
     );
 
-    // 获取面板概览工具
-    this.server.tool(
-      "get-overview",
-      "获取MCSManager面板概览信息 - 无需参数，返回面板完整概览信息，包含系统信息、面板资源使用情况和守护进程列表等",
-      {},
-      async () => {
-        try {
-          const response = await this.api.getOverview();
-          if (response.status !== 200) {
-            throw new Error(`Failed to get overview: ${response.status}`);
-          }
-
-          const overview = response.data;
-          const overviewInfo = {
-            version: overview.version,
-            specifiedDaemonVersion: overview.specifiedDaemonVersion,
-            process: overview.process,
-            record: overview.record,
-            system: {
-              user: overview.system.user,
-              time: overview.system.time,
-              totalmem: overview.system.totalmem,
-              freemem: overview.system.freemem,
-              type: overview.system.type,
-              version: overview.system.version,
-              node: overview.system.node,
-              hostname: overview.system.hostname,
-              loadavg: overview.system.loadavg,
-              platform: overview.system.platform,
-              release: overview.system.release,
-              uptime: overview.system.uptime,
-              cpu: overview.system.cpu,
-            },
-            remoteCount: {
-              available: overview.remoteCount.available,
-              total: overview.remoteCount.total,
-            },
-            remote: overview.remote.map((daemon: any) => ({
-              version: daemon.version,
-              process: daemon.process,
-              instance: daemon.instance,
-              system: {
-                type: daemon.system.type,
-                hostname: daemon.system.hostname,
-                platform: daemon.system.platform,
-                release: daemon.system.release,
-                uptime: daemon.system.uptime,
-                cwd: daemon.system.cwd,
-                loadavg: daemon.system.loadavg,
-                freemem: daemon.system.freemem,
-                cpuUsage: daemon.system.cpuUsage,
-                memUsage: daemon.system.memUsage,
-                totalmem: daemon.system.totalmem,
-                processCpu: daemon.system.processCpu,
-                processMem: daemon.system.processMem,
-              },
-              uuid: daemon.uuid,
-              ip: daemon.ip,
-              port: daemon.port,
-              prefix: daemon.prefix,
-              available: daemon.available,
-              remarks: daemon.remarks,
-            })),
-          };
-
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(overviewInfo, null, 2),
-              },
-            ],
-          };
+    // 获取文件内容工具
+    tool(
+      "get-file-content",
+      "获取指定实例的文件内容 - 通过instance或daemonId+instanceId指定实例，必须提供filePath参数；大文件可以用startLine/endLine、head或tail读取部分行，用search在文件内搜索，用maxBytes限制返回的大小；二进制文件只返回文件信息",
+      {
+        panel: panelParam,
+        ...instanceParams,
+        filePath: z
+          .string()
+          .describe(
+            "文件路径 - 必填，完整的文件路径，例如：/server.properties"
+          ),
+        startLine: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe("起始行号 - 可选，从1开始，包含该行"),
+        endLine: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe("结束行号 - 可选，包含该行"),
+        head: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe(
+            "只返回前N行 - 可选，不能与startLine/endLine或tail同时使用"
+          ),
+        tail: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe(
+            "只返回后N行 - 可选，不能与startLine/endLine或head同时使用，例如读取日志的最新内容"
+          ),
+        search: z
+          .string()
+          .optional()
+          .describe(
+            "搜索的正则表达式 - 可选，只返回匹配的行及其上下文，带行号；同时指定行范围时只在该范围内搜索"
+          ),
+        ignoreCase: z
+          .boolean()
+          .optional()
+          .describe("搜索时忽略大小写 - 可选，默认false"),
+        context: z
+          .number()
+          .int()
+          .min(0)
+          .max(20)
+          .optional()
+          .describe("每处匹配前后的上下文行数 - 可选，默认2"),
+        maxMatches: z
+          .number()
+          .int()
+          .min(1)
+          .max(1000)
+          .optional()
+          .describe("最多返回的匹配行数 - 可选，默认100"),
+        maxBytes: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe(
+            "返回内容的最大字节数 - 可选，超出部分被截断并附加截断说明"
+          ),
+      },
+      async ({
+        panel,
+        filePath,
+        startLine,
+        endLine,
+        head,
+        tail,
+        search,
+        ignoreCase,
+        context = 2,
+        maxMatches = 100,
+        maxBytes,
+        ...ref
+      }) => {
+        try {
+          const { daemonId, instanceId } = await this.resolveInstance(
+            panel,
+            ref
+          );
+          if (!filePath) {
+            throw new Error("File path is required");
+          }
+          const target = normalizeInstancePath(filePath);
+
+          const content = await this.getApi(panel).getFileContent(
+            instanceId,
+            daemonId,
+            target
+          );
+
+          if (isBinaryContent(content)) {
+            const file = await this.findFile(
+              panel,
+              daemonId,
+              instanceId,
+              target
+            );
+            const result = {
+              filePath: target,
+              binary: true,
+              size: file?.size,
+              modified: file?.time,
+              message:
+                "Binary file, content not shown. Use download-file to fetch it as base64.",
+            };
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(result, null, 2),
+                },
+              ],
+            };
+          }
+
+          const ranged = [startLine, endLine, head, tail].some(
+            (value) => value !== undefined
+          );
+          let text = content;
+          if (ranged || search !== undefined) {
+            const lines = splitLines(content);
+            const selected = selectLines(lines, {
+              startLine,
+              endLine,
+              head,
+              tail,
+            });
+            const lastLine = selected.firstLine + selected.lines.length - 1;
+            const range = ranged
+              ? `lines ${selected.firstLine}-${lastLine} of ${lines.length}`
+              : `${lines.length} lines`;
+
+            if (search !== undefined) {
+              const found = searchLines(selected, search, {
+                context,
+                maxMatches,
+                ignoreCase,
+              });
+              text =
+                found.matches === 0
+                  ? `No lines matching /${search}/ in ${target} (${range})`
+                  : `${
+                      found.matches
+                    } matching lines for /${search}/ in ${target} (${range})${
+                      found.truncated
+                        ? `, stopped after ${maxMatches} matches`
+                        : ""
+                    }:\n${found.text}`;
+            } else {
+              text =
+                selected.lines.length === 0
+                  ? `No lines in range, ${target} has ${lines.length} lines`
+                  : `${target} (${range}):\n${selected.lines.join("\n")}`;
+            }
+          }
+
+          if (maxBytes !== undefined) {
+            const truncated = truncateBytes(text, maxBytes);
+            if (truncated.truncated) {
+              text = `${truncated.text}\n... [truncated: showing ${maxBytes} of ${truncated.totalBytes} bytes, use startLine/endLine, tail or search to read the rest]`;
+            }
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error(`Error fetching file content for ${filePath}:`, error);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error fetching file content: ${
+                  error instanceof Error ? error.message : String(error)
+                }`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // 获取面板概览工具
+    tool(
+      "get-overview",
+      "获取MCSManager面板概览信息 - 无需参数，返回面板完整概览信息，包含系统信息、面板资源使用情况和守护进程列表等；allPanels为true时汇总所有面板",
+      {
+        panel: panelParam,
+        allPanels: z
+          .boolean()
+          .optional()
+          .describe("汇总所有面板 - 可选，为true时返回所有已配置面板的概览"),
+        fresh: freshParam,
+      },
+      async ({ panel, allPanels, fresh }) => {
+        try {
+          const overviewInfo = allPanels
+            ? await this.collectFromPanels((name) =>
+                this.fetchOverview(name, fresh)
+              )
+            : await this.fetchOverview(this.resolvePanel(panel), fresh);
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(overviewInfo, null, 2),
+              },
+            ],
+          };
         } catch (error) {
           console.error("Error fetching overview:", error);
           return {
@@ -457,23 +1581,20 @@ export class MCSManagerMCPServer {
     );
 
     // 启动实例工具
-    this.server.tool(
+    tool(
       "start-instance",
-      "启动指定实例 - 必须提供daemonId和instanceId两个参数，成功返回启动确认信息",
+      "启动指定实例 - 通过instance或daemonId+instanceId指定实例，成功返回启动确认信息",
       {
-        daemonId: z
-          .string()
-          .describe("守护进程ID - 必填，从get-daemons返回的id字段获取"),
-        instanceId: z
-          .string()
-          .describe("实例ID - 必填，从get-instances返回的id字段获取"),
+        panel: panelParam,
+        ...instanceParams,
       },
-      async ({ daemonId, instanceId }) => {
+      async ({ panel, ...ref }) => {
         try {
-          const response = await this.api.startInstance(instanceId, daemonId);
-          if (response.status !== 200) {
-            throw new Error(`Failed to start instance: ${response.status}`);
-          }
+          const { daemonId, instanceId } = await this.resolveInstance(
+            panel,
+            ref
+          );
+          await this.getApi(panel).startInstance(instanceId, daemonId);
 
           return {
             content: [
@@ -484,7 +1605,10 @@ export class MCSManagerMCPServer {
             ],
           };
         } catch (error) {
-          console.error(`Error starting instance ${instanceId}:`, error);
+          console.error(
+            `Error starting instance ${this.formatInstanceRef(ref)}:`,
+            error
+          );
           return {
             content: [
               {
@@ -501,24 +1625,40 @@ export class MCSManagerMCPServer {
     );
 
     // 停止实例工具
-    this.server.tool(
+    tool(
       "stop-instance",
-      "停止指定实例 - 必须提供daemonId和instanceId两个参数，成功返回停止确认信息",
+      "停止指定实例 - 通过instance或daemonId+instanceId指定实例，成功返回停止确认信息",
       {
-        daemonId: z
+        panel: panelParam,
+        ...instanceParams,
+        confirmationToken: z
           .string()
-          .describe("守护进程ID - 必填，从get-daemons返回的id字段获取"),
-        instanceId: z
-          .string()
-          .describe("实例ID - 必填，从get-instances返回的id字段获取"),
+          .optional()
+          .describe(
+            "确认令牌 - 可选，首次调用返回操作预览和确认令牌，携带该令牌再次调用才会真正执行"
+          ),
       },
-      async ({ daemonId, instanceId }) => {
+      async ({ panel, confirmationToken, ...ref }) => {
         try {
-          const response = await this.api.stopInstance(instanceId, daemonId);
-          if (response.status !== 200) {
-            throw new Error(`Failed to stop instance: ${response.status}`);
+          const { daemonId, instanceId } = await this.resolveInstance(
+            panel,
+            ref
+          );
+          const pending = await this.requireConfirmation(
+            server,
+            identity,
+            "stop-instance",
+            { panel, daemonId, instanceId },
+            confirmationToken,
+            () =>
+              this.describeInstanceAction(panel, "stop", daemonId, instanceId)
+          );
+          if (pending) {
+            return pending;
           }
 
+          await this.getApi(panel).stopInstance(instanceId, daemonId);
+
           return {
             content: [
               {
@@ -528,7 +1668,10 @@ export class MCSManagerMCPServer {
             ],
           };
         } catch (error) {
-          console.error(`Error stopping instance ${instanceId}:`, error);
+          console.error(
+            `Error stopping instance ${this.formatInstanceRef(ref)}:`,
+            error
+          );
           return {
             content: [
               {
@@ -545,24 +1688,45 @@ export class MCSManagerMCPServer {
     );
 
     // 重启实例工具
-    this.server.tool(
+    tool(
       "restart-instance",
-      "重启指定实例 - 必须提供daemonId和instanceId两个参数，成功返回重启确认信息",
+      "重启指定实例 - 通过instance或daemonId+instanceId指定实例，成功返回重启确认信息",
       {
-        daemonId: z
-          .string()
-          .describe("守护进程ID - 必填，从get-daemons返回的id字段获取"),
-        instanceId: z
+        panel: panelParam,
+        ...instanceParams,
+        confirmationToken: z
           .string()
-          .describe("实例ID - 必填，从get-instances返回的id字段获取"),
+          .optional()
+          .describe(
+            "确认令牌 - 可选，首次调用返回操作预览和确认令牌，携带该令牌再次调用才会真正执行"
+          ),
       },
-      async ({ daemonId, instanceId }) => {
+      async ({ panel, confirmationToken, ...ref }) => {
         try {
-          const response = await this.api.restartInstance(instanceId, daemonId);
-          if (response.status !== 200) {
-            throw new Error(`Failed to restart instance: ${response.status}`);
+          const { daemonId, instanceId } = await this.resolveInstance(
+            panel,
+            ref
+          );
+          const pending = await this.requireConfirmation(
+            server,
+            identity,
+            "restart-instance",
+            { panel, daemonId, instanceId },
+            confirmationToken,
+            () =>
+              this.describeInstanceAction(
+                panel,
+                "restart",
+                daemonId,
+                instanceId
+              )
+          );
+          if (pending) {
+            return pending;
           }
 
+          await this.getApi(panel).restartInstance(instanceId, daemonId);
+
           return {
             content: [
               {
@@ -572,7 +1736,10 @@ export class MCSManagerMCPServer {
             ],
           };
         } catch (error) {
-          console.error(`Error restarting instance ${instanceId}:`, error);
+          console.error(
+            `Error restarting instance ${this.formatInstanceRef(ref)}:`,
+            error
+          );
           return {
             content: [
               {
@@ -589,24 +1756,40 @@ export class MCSManagerMCPServer {
     );
 
     // 强制终止实例工具
-    this.server.tool(
+    tool(
       "kill-instance",
-      "强制终止指定实例 - 必须提供daemonId和instanceId两个参数，用于紧急情况下强制关闭实例进程",
+      "强制终止指定实例 - 通过instance或daemonId+instanceId指定实例，用于紧急情况下强制关闭实例进程",
       {
-        daemonId: z
-          .string()
-          .describe("守护进程ID - 必填，从get-daemons返回的id字段获取"),
-        instanceId: z
+        panel: panelParam,
+        ...instanceParams,
+        confirmationToken: z
           .string()
-          .describe("实例ID - 必填，从get-instances返回的id字段获取"),
+          .optional()
+          .describe(
+            "确认令牌 - 可选，首次调用返回操作预览和确认令牌，携带该令牌再次调用才会真正执行"
+          ),
       },
-      async ({ daemonId, instanceId }) => {
+      async ({ panel, confirmationToken, ...ref }) => {
         try {
-          const response = await this.api.killInstance(instanceId, daemonId);
-          if (response.status !== 200) {
-            throw new Error(`Failed to kill instance: ${response.status}`);
+          const { daemonId, instanceId } = await this.resolveInstance(
+            panel,
+            ref
+          );
+          const pending = await this.requireConfirmation(
+            server,
+            identity,
+            "kill-instance",
+            { panel, daemonId, instanceId },
+            confirmationToken,
+            () =>
+              this.describeInstanceAction(panel, "kill", daemonId, instanceId)
+          );
+          if (pending) {
+            return pending;
           }
 
+          await this.getApi(panel).killInstance(instanceId, daemonId);
+
           return {
             content: [
               {
@@ -616,7 +1799,10 @@ export class MCSManagerMCPServer {
             ],
           };
         } catch (error) {
-          console.error(`Error killing instance ${instanceId}:`, error);
+          console.error(
+            `Error killing instance ${this.formatInstanceRef(ref)}:`,
+            error
+          );
           return {
             content: [
               {
@@ -633,42 +1819,84 @@ export class MCSManagerMCPServer {
     );
 
     // 发送命令工具
-    this.server.tool(
+    tool(
       "send-command",
-      "向指定实例发送命令 - 必须提供daemonId、instanceId和command三个参数",
+      "向指定实例发送命令 - 通过instance或daemonId+instanceId指定实例，必须提供command参数；waitForOutput为true时等待片刻并返回命令执行后新增的控制台输出",
       {
-        daemonId: z
-          .string()
-          .describe("守护进程ID - 必填，从get-daemons返回的id字段获取"),
-        instanceId: z
-          .string()
-          .describe("实例ID - 必填，从get-instances返回的id字段获取"),
+        panel: panelParam,
+        ...instanceParams,
         command: z
           .string()
           .describe("要发送的命令 - 必填，例如：say Hello 或 stop"),
+        waitForOutput: z
+          .boolean()
+          .optional()
+          .describe(
+            "等待命令输出 - 可选，为true时返回命令发送后新增的控制台输出，适用于list、tps等查询命令"
+          ),
+        waitMs: z
+          .number()
+          .int()
+          .min(100)
+          .max(10000)
+          .optional()
+          .describe("等待时间(毫秒) - 可选，默认1500，最大10000"),
       },
-      async ({ daemonId, instanceId, command }) => {
+      async ({ panel, command, waitForOutput, waitMs = 1500, ...ref }) => {
         try {
-          const response = await this.api.sendCommand(
-            instanceId,
-            daemonId,
-            command
+          const api = this.getApi(panel);
+          const { daemonId, instanceId } = await this.resolveInstance(
+            panel,
+            ref
           );
-          if (response.status !== 200) {
-            throw new Error(`Failed to send command: ${response.status}`);
+
+          // 记录发送命令前的输出，用于提取命令产生的新输出
+          const before = waitForOutput
+            ? await this.fetchConsoleOutput(api, instanceId, daemonId)
+            : "";
+
+          await api.sendCommand(instanceId, daemonId, command);
+
+          if (!waitForOutput) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `Successfully sent command "${command}" to instance ${instanceId}`,
+                },
+              ],
+            };
           }
 
+          await new Promise((resolve) => setTimeout(resolve, waitMs));
+          const after = await this.fetchConsoleOutput(
+            api,
+            instanceId,
+            daemonId
+          );
+          const newLines = extractNewLines(before, after);
+
           return {
             content: [
               {
                 type: "text",
-                text: `Successfully sent command "${command}" to instance ${instanceId}`,
+                text:
+                  newLines === undefined
+                    ? `Sent command "${command}" to instance ${instanceId}, but the new output could not be separated from the previous log. Last 20 lines:\n${tailLines(
+                        splitLines(after),
+                        20
+                      ).join("\n")}`
+                    : newLines.length === 0
+                    ? `Sent command "${command}" to instance ${instanceId}, no console output within ${waitMs}ms`
+                    : `Sent command "${command}" to instance ${instanceId}, console output:\n${newLines.join(
+                        "\n"
+                      )}`,
               },
             ],
           };
         } catch (error) {
           console.error(
-            `Error sending command to instance ${instanceId}:`,
+            `Error sending command to instance ${this.formatInstanceRef(ref)}:`,
             error
           );
           return {
@@ -686,41 +1914,139 @@ export class MCSManagerMCPServer {
       }
     );
 
+    // 获取控制台输出工具
+    tool(
+      "get-console-output",
+      "获取指定实例最近的控制台输出 - 通过instance或daemonId+instanceId指定实例，可指定返回的行数和正则过滤",
+      {
+        panel: panelParam,
+        ...instanceParams,
+        tail: z
+          .number()
+          .int()
+          .min(1)
+          .max(2000)
+          .optional()
+          .describe("返回的行数 - 可选，返回最后N行，默认100"),
+        filter: z
+          .string()
+          .optional()
+          .describe(
+            "正则过滤 - 可选，只返回匹配的行(先过滤再取最后N行)，例如：ERROR|WARN"
+          ),
+      },
+      async ({ panel, tail = 100, filter, ...ref }) => {
+        try {
+          const api = this.getApi(panel);
+          const { daemonId, instanceId } = await this.resolveInstance(
+            panel,
+            ref
+          );
+
+          let lines = splitLines(
+            await this.fetchConsoleOutput(api, instanceId, daemonId)
+          );
+          if (filter) {
+            lines = filterLines(lines, filter);
+          }
+          lines = tailLines(lines, tail);
+
+          return {
+            content: [
+              {
+                type: "text",
+                text:
+                  lines.length > 0
+                    ? lines.join("\n")
+                    : "No console output matched",
+              },
+            ],
+          };
+        } catch (error) {
+          console.error(
+            `Error fetching console output of instance ${this.formatInstanceRef(
+              ref
+            )}:`,
+            error
+          );
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error fetching console output: ${
+                  error instanceof Error ? error.message : String(error)
+                }`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
     // 更新文件内容工具
-    this.server.tool(
+    tool(
       "update-file",
-      "更新指定实例的文件内容 - 必须提供daemonId、instanceId、filePath和content四个参数",
+      "更新指定实例的文件内容 - 通过instance或daemonId+instanceId指定实例，必须提供filePath和content参数",
       {
-        daemonId: z
-          .string()
-          .describe("守护进程ID - 必填，从get-daemons返回的id字段获取"),
-        instanceId: z
-          .string()
-          .describe("实例ID - 必填，从get-instances返回的id字段获取"),
+        panel: panelParam,
+        ...instanceParams,
         filePath: z
           .string()
           .describe(
             "文件路径 - 必填，完整的文件路径，例如：/server.properties"
           ),
         content: z.string().describe("文件内容 - 必填，要写入文件的新内容"),
+        confirmationToken: z
+          .string()
+          .optional()
+          .describe(
+            "确认令牌 - 可选，首次调用返回操作预览和确认令牌，携带该令牌再次调用才会真正执行"
+          ),
       },
-      async ({ daemonId, instanceId, filePath, content }) => {
+      async ({ panel, filePath, content, confirmationToken, ...ref }) => {
         try {
-          const response = await this.api.updateFileContent(
-            instanceId,
+          const target = normalizeWritablePath(filePath);
+          const { daemonId, instanceId } = await this.resolveInstance(
+            panel,
+            ref
+          );
+          const pending = await this.requireConfirmation(
+            server,
+            identity,
+            "update-file",
+            { panel, daemonId, instanceId, filePath: target, content },
+            confirmationToken,
+            () =>
+              this.describeFileUpdate(
+                panel,
+                daemonId,
+                instanceId,
+                target,
+                content
+              )
+          );
+          if (pending) {
+            return pending;
+          }
+
+          const versionId = await this.writeFileWithVersion(
+            panel,
+            identity,
+            "update-file",
             daemonId,
-            filePath,
+            instanceId,
+            target,
             content
           );
-          if (response.status !== 200) {
-            throw new Error(`Failed to update file: ${response.status}`);
-          }
 
           return {
             content: [
               {
                 type: "text",
-                text: `Successfully updated file ${filePath}`,
+                text: `Successfully updated file ${target}${this.formatSavedVersion(
+                  versionId
+                )}`,
               },
             ],
           };
@@ -740,71 +2066,3836 @@ export class MCSManagerMCPServer {
         }
       }
     );
-  }
-
-  /**
-   * 获取实例状态文本
-   * @param status 状态码
-   * @returns 状态文本
-   */
-  private getStatusText(status: number): string {
-    switch (status) {
-      case -1:
-        return "busy";
-      case 0:
-        return "stopped";
-      case 1:
-        return "stopping";
-      case 2:
-        return "starting";
-      case 3:
-        return "running";
-      default:
-        return "unknown";
-    }
-  }
 
-  /**
-   * 启动服务器
-   */
-  async start() {
-    // 处理POST请求
-    this.app.post("/mcp", async (req, res) => {
-      // 检查会话ID
-      const sessionId = req.headers["mcp-session-id"] as string | undefined;
-      let transport: StreamableHTTPServerTransport;
+    // 确认令牌参数，需要二次确认的文件操作共用
+    const confirmationTokenParam = z
+      .string()
+      .optional()
+      .describe(
+        "确认令牌 - 可选，首次调用返回操作预览和确认令牌，携带该令牌再次调用才会真正执行"
+      );
 
-      if (sessionId && this.transports[sessionId]) {
-        // 重用现有传输
-        transport = this.transports[sessionId];
-      } else if (!sessionId && req.body && req.body.method === "initialize") {
-        // 新的初始化请求
-        transport = new StreamableHTTPServerTransport({
-          sessionIdGenerator: () => randomUUID(),
-          onsessioninitialized: (sessionId) => {
-            // 存储传输
-            this.transports[sessionId] = transport;
-          },
-        });
+    // 补丁修改文件工具
+    tool(
+      "apply-file-patch",
+      "以补丁方式修改指定实例的文件 - 通过instance或daemonId+instanceId指定实例，提供统一差异格式(unified diff)的patch或搜索替换列表edits（二选一），只需传入修改的部分；补丁的上下文与文件当前内容不一致时拒绝修改并返回冲突说明，需要二次确认，预览后文件被修改时确认会因冲突失败",
+      {
+        panel: panelParam,
+        ...instanceParams,
+        filePath: z
+          .string()
+          .describe("文件路径 - 必填，例如：/plugins/Essentials/config.yml"),
+        patch: z
+          .string()
+          .optional()
+          .describe(
+            "统一差异格式的补丁 - 与edits二选一，包含@@ -a,b +c,d @@修改块，上下文行和删除行必须与文件内容一致"
+          ),
+        edits: z
+          .array(
+            z.object({
+              search: z
+                .string()
+                .describe("要查找的原文 - 必须与文件内容完全一致，包括缩进"),
+              replace: z.string().describe("替换后的文本"),
+              replaceAll: z
+                .boolean()
+                .optional()
+                .describe(
+                  "是否替换所有匹配 - 可选，默认要求原文在文件中只出现一次"
+                ),
+            })
+          )
+          .min(1)
+          .optional()
+          .describe("搜索替换列表 - 与patch二选一，按顺序应用"),
+        confirmationToken: confirmationTokenParam,
+      },
+      async ({ panel, filePath, patch, edits, confirmationToken, ...ref }) => {
+        try {
+          const target = normalizeWritablePath(filePath);
+          if ((patch === undefined) === (edits === undefined)) {
+            throw new Error("Exactly one of patch or edits must be provided");
+          }
+          const { daemonId, instanceId } = await this.resolveInstance(
+            panel,
+            ref
+          );
+          const current = await this.getApi(panel).getFileContent(
+            instanceId,
+            daemonId,
+            target
+          );
+          const updated =
+            patch !== undefined
+              ? applyUnifiedDiff(current, patch)
+              : applySearchReplace(current, edits!);
+          const diff = createUnifiedDiff(current, updated, target);
+          if (!diff) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `No changes: the patch does not modify ${target}`,
+                },
+              ],
+            };
+          }
 
-        // 传输关闭时清理
-        transport.onclose = () => {
-          if (transport.sessionId) {
-            delete this.transports[transport.sessionId];
+          const pending = await this.requireConfirmation(
+            server,
+            identity,
+            "apply-file-patch",
+            { panel, daemonId, instanceId, filePath: target, patch, edits },
+            confirmationToken,
+            async () =>
+              [
+                `Preview: patch ${target}`,
+                `Panel: ${this.resolvePanel(panel)}`,
+                `Instance: ${instanceId}`,
+                `Daemon: ${daemonId}`,
+                `Diff:\n${diff}`,
+              ].join("\n"),
+            false,
+            current
+          );
+          if (pending) {
+            return pending;
           }
-        };
 
-        // 连接到MCP服务器
-        await this.server.connect(transport);
-      } else {
-        // 无效请求
-        res.status(400).json({
-          jsonrpc: "2.0",
-          error: {
-            code: -32000,
-            message: "Bad Request: No valid session ID provided",
-          },
-          id: null,
+          const versionId = await this.writeFileWithVersion(
+            panel,
+            identity,
+            "apply-file-patch",
+            daemonId,
+            instanceId,
+            target,
+            updated,
+            current
+          );
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Successfully patched ${target}${this.formatSavedVersion(
+                  versionId
+                )}\nDiff:\n${diff}`,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error(`Error patching file ${filePath}:`, error);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error patching file: ${
+                  error instanceof Error ? error.message : String(error)
+                }`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // 创建目录工具
+    tool(
+      "create-directory",
+      "在指定实例中创建目录 - 通过instance或daemonId+instanceId指定实例，路径相对于实例工作目录，不允许包含..",
+      {
+        panel: panelParam,
+        ...instanceParams,
+        path: z.string().describe("目录路径 - 必填，例如：/plugins/config"),
+      },
+      async ({ panel, path, ...ref }) => {
+        try {
+          const target = normalizeWritablePath(path);
+          const { daemonId, instanceId } = await this.resolveInstance(
+            panel,
+            ref
+          );
+          await this.getApi(panel).createDirectory(
+            instanceId,
+            daemonId,
+            target
+          );
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Successfully created directory ${target}`,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error(`Error creating directory ${path}:`, error);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error creating directory: ${
+                  error instanceof Error ? error.message : String(error)
+                }`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // 删除文件工具
+    tool(
+      "delete-files",
+      "删除指定实例中的文件或目录 - 通过instance或daemonId+instanceId指定实例，目录会连同其内容一起删除，需要二次确认",
+      {
+        panel: panelParam,
+        ...instanceParams,
+        paths: z
+          .array(z.string())
+          .min(1)
+          .describe('文件或目录路径 - 必填，例如：["/logs/old.log"]'),
+        confirmationToken: confirmationTokenParam,
+      },
+      async ({ panel, paths, confirmationToken, ...ref }) => {
+        try {
+          const targets = paths.map((path) => normalizeWritablePath(path));
+          const { daemonId, instanceId } = await this.resolveInstance(
+            panel,
+            ref
+          );
+          const pending = await this.requireConfirmation(
+            server,
+            identity,
+            "delete-files",
+            { panel, daemonId, instanceId, paths: targets },
+            confirmationToken,
+            () =>
+              this.describeFileDeletion(panel, daemonId, instanceId, targets)
+          );
+          if (pending) {
+            return pending;
+          }
+
+          await this.getApi(panel).deleteFiles(instanceId, daemonId, targets);
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Successfully deleted ${targets.join(", ")}`,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error(`Error deleting files ${paths.join(", ")}:`, error);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error deleting files: ${
+                  error instanceof Error ? error.message : String(error)
+                }`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // 移动文件工具
+    tool(
+      "move-file",
+      "移动或重命名指定实例中的文件或目录 - 通过instance或daemonId+instanceId指定实例，source和destination都相对于实例工作目录，覆盖已有文本文件前会保存其历史版本，需要二次确认",
+      {
+        panel: panelParam,
+        ...instanceParams,
+        source: z.string().describe("源路径 - 必填，例如：/world_old"),
+        destination: z
+          .string()
+          .describe("目标路径 - 必填，包含新的文件名，例如：/backup/world_old"),
+        confirmationToken: confirmationTokenParam,
+      },
+      async ({ panel, source, destination, confirmationToken, ...ref }) => {
+        try {
+          const from = normalizeWritablePath(source);
+          const to = normalizeWritablePath(destination);
+          const { daemonId, instanceId } = await this.resolveInstance(
+            panel,
+            ref
+          );
+          const pending = await this.requireConfirmation(
+            server,
+            identity,
+            "move-file",
+            { panel, daemonId, instanceId, source: from, destination: to },
+            confirmationToken,
+            () =>
+              this.describeFileTransfer(
+                panel,
+                daemonId,
+                instanceId,
+                "move",
+                from,
+                to
+              )
+          );
+          if (pending) {
+            return pending;
+          }
+
+          const versionId = await this.snapshotFile(
+            panel,
+            identity,
+            "move-file",
+            daemonId,
+            instanceId,
+            to
+          );
+          await this.getApi(panel).moveFile(instanceId, daemonId, from, to);
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Successfully moved ${from} to ${to}${this.formatSavedVersion(
+                  versionId
+                )}`,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error(`Error moving ${source} to ${destination}:`, error);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error moving file: ${
+                  error instanceof Error ? error.message : String(error)
+                }`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // 复制文件工具
+    tool(
+      "copy-file",
+      "复制指定实例中的文件或目录 - 通过instance或daemonId+instanceId指定实例，source和destination都相对于实例工作目录，覆盖已有文本文件前会保存其历史版本，需要二次确认",
+      {
+        panel: panelParam,
+        ...instanceParams,
+        source: z.string().describe("源路径 - 必填，例如：/server.properties"),
+        destination: z
+          .string()
+          .describe(
+            "目标路径 - 必填，包含文件名，例如：/server.properties.bak"
+          ),
+        confirmationToken: confirmationTokenParam,
+      },
+      async ({ panel, source, destination, confirmationToken, ...ref }) => {
+        try {
+          const from = normalizeWritablePath(source);
+          const to = normalizeWritablePath(destination);
+          const { daemonId, instanceId } = await this.resolveInstance(
+            panel,
+            ref
+          );
+          const pending = await this.requireConfirmation(
+            server,
+            identity,
+            "copy-file",
+            { panel, daemonId, instanceId, source: from, destination: to },
+            confirmationToken,
+            () =>
+              this.describeFileTransfer(
+                panel,
+                daemonId,
+                instanceId,
+                "copy",
+                from,
+                to
+              )
+          );
+          if (pending) {
+            return pending;
+          }
+
+          const versionId = await this.snapshotFile(
+            panel,
+            identity,
+            "copy-file",
+            daemonId,
+            instanceId,
+            to
+          );
+          await this.getApi(panel).copyFile(instanceId, daemonId, from, to);
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Successfully copied ${from} to ${to}${this.formatSavedVersion(
+                  versionId
+                )}`,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error(`Error copying ${source} to ${destination}:`, error);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error copying file: ${
+                  error instanceof Error ? error.message : String(error)
+                }`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // 压缩文件工具
+    tool(
+      "compress-files",
+      "将指定实例中的文件和目录压缩为zip文件 - 通过instance或daemonId+instanceId指定实例，压缩在守护进程上进行，大目录可能需要一段时间；已存在的同名zip文件会被覆盖且不保存历史版本，需要二次确认",
+      {
+        panel: panelParam,
+        ...instanceParams,
+        paths: z
+          .array(z.string())
+          .min(1)
+          .describe('要压缩的文件和目录路径 - 必填，例如：["/world"]'),
+        archivePath: z
+          .string()
+          .describe("zip文件路径 - 必填，以.zip结尾，例如：/backup/world.zip"),
+        encoding: z
+          .string()
+          .optional()
+          .describe("文件名编码 - 可选，默认utf-8"),
+        confirmationToken: confirmationTokenParam,
+      },
+      async ({
+        panel,
+        paths,
+        archivePath,
+        encoding,
+        confirmationToken,
+        ...ref
+      }) => {
+        try {
+          const targets = paths.map((path) => normalizeWritablePath(path));
+          const archive = normalizeWritablePath(archivePath);
+          if (!archive.toLowerCase().endsWith(".zip")) {
+            throw new Error(`archivePath must end with .zip: ${archivePath}`);
+          }
+          const { daemonId, instanceId } = await this.resolveInstance(
+            panel,
+            ref
+          );
+          const pending = await this.requireConfirmation(
+            server,
+            identity,
+            "compress-files",
+            {
+              panel,
+              daemonId,
+              instanceId,
+              paths: targets,
+              archivePath: archive,
+              encoding,
+            },
+            confirmationToken,
+            () =>
+              this.describeArchiveCreation(
+                panel,
+                daemonId,
+                instanceId,
+                targets,
+                archive
+              )
+          );
+          if (pending) {
+            return pending;
+          }
+
+          await this.getApi(panel).compressFiles(
+            instanceId,
+            daemonId,
+            archive,
+            targets,
+            encoding
+          );
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Successfully compressed ${targets.join(
+                  ", "
+                )} into ${archive}`,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error(`Error compressing into ${archivePath}:`, error);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error compressing files: ${
+                  error instanceof Error ? error.message : String(error)
+                }`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // 解压文件工具
+    tool(
+      "extract-archive",
+      "解压指定实例中的zip文件 - 通过instance或daemonId+instanceId指定实例，destination可选(默认为zip文件所在目录)，同名文件会被覆盖且不保存历史版本，需要二次确认",
+      {
+        panel: panelParam,
+        ...instanceParams,
+        archivePath: z
+          .string()
+          .describe("zip文件路径 - 必填，例如：/backup/world.zip"),
+        destination: z
+          .string()
+          .optional()
+          .describe("解压到的目录 - 可选，默认为zip文件所在目录"),
+        encoding: z
+          .string()
+          .optional()
+          .describe("文件名编码 - 可选，默认utf-8"),
+        confirmationToken: confirmationTokenParam,
+      },
+      async ({
+        panel,
+        archivePath,
+        destination,
+        encoding,
+        confirmationToken,
+        ...ref
+      }) => {
+        try {
+          const archive = normalizeWritablePath(archivePath);
+          const target =
+            destination === undefined
+              ? splitPath(archive).directory
+              : normalizeInstancePath(destination);
+          const { daemonId, instanceId } = await this.resolveInstance(
+            panel,
+            ref
+          );
+          const pending = await this.requireConfirmation(
+            server,
+            identity,
+            "extract-archive",
+            {
+              panel,
+              daemonId,
+              instanceId,
+              archivePath: archive,
+              destination: target,
+              encoding,
+            },
+            confirmationToken,
+            () =>
+              this.describeArchiveExtraction(
+                panel,
+                daemonId,
+                instanceId,
+                archive,
+                target
+              )
+          );
+          if (pending) {
+            return pending;
+          }
+
+          await this.getApi(panel).extractArchive(
+            instanceId,
+            daemonId,
+            archive,
+            target,
+            encoding
+          );
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Successfully extracted ${archive} into ${target}`,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error(`Error extracting ${archivePath}:`, error);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error extracting archive: ${
+                  error instanceof Error ? error.message : String(error)
+                }`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // 上传文件工具
+    tool(
+      "upload-file",
+      `上传文件到指定实例 - 通过instance或daemonId+instanceId指定实例，文件内容为base64编码，适用于插件jar等二进制文件，最大${
+        MAX_FILE_TRANSFER_BYTES / 1024 / 1024
+      }MB，同名文件会被覆盖（被覆盖的文本文件会保存历史版本），需要二次确认`,
+      {
+        panel: panelParam,
+        ...instanceParams,
+        path: z
+          .string()
+          .describe("文件路径 - 必填，包含文件名，例如：/plugins/example.jar"),
+        contentBase64: z
+          .string()
+          .describe("文件内容 - 必填，base64编码的文件内容"),
+        confirmationToken: confirmationTokenParam,
+      },
+      async ({ panel, path, contentBase64, confirmationToken, ...ref }) => {
+        try {
+          const target = normalizeWritablePath(path);
+          const data = decodeBase64(contentBase64);
+          if (data.length > MAX_FILE_TRANSFER_BYTES) {
+            throw new Error(
+              `File is too large (${data.length} bytes), the limit is ${MAX_FILE_TRANSFER_BYTES} bytes`
+            );
+          }
+          const { daemonId, instanceId } = await this.resolveInstance(
+            panel,
+            ref
+          );
+          const pending = await this.requireConfirmation(
+            server,
+            identity,
+            "upload-file",
+            { panel, daemonId, instanceId, path: target, contentBase64 },
+            confirmationToken,
+            () =>
+              this.describeFileUpload(
+                panel,
+                daemonId,
+                instanceId,
+                target,
+                data.length
+              )
+          );
+          if (pending) {
+            return pending;
+          }
+
+          const versionId = await this.snapshotFile(
+            panel,
+            identity,
+            "upload-file",
+            daemonId,
+            instanceId,
+            target
+          );
+          const { directory, name } = splitPath(target);
+          await this.getApi(panel).uploadFile(
+            instanceId,
+            daemonId,
+            directory,
+            name,
+            data
+          );
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Successfully uploaded ${target} (${
+                  data.length
+                } bytes)${this.formatSavedVersion(versionId)}`,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error(`Error uploading file ${path}:`, error);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error uploading file: ${
+                  error instanceof Error ? error.message : String(error)
+                }`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // 下载文件工具
+    tool(
+      "download-file",
+      `从指定实例下载文件 - 通过instance或daemonId+instanceId指定实例，返回base64编码的文件内容，适用于二进制文件，最大${
+        MAX_FILE_TRANSFER_BYTES / 1024 / 1024
+      }MB；文本文件请使用get-file-content`,
+      {
+        panel: panelParam,
+        ...instanceParams,
+        path: z.string().describe("文件路径 - 必填，例如：/world/level.dat"),
+      },
+      async ({ panel, path, ...ref }) => {
+        try {
+          const target = normalizeInstancePath(path);
+          const { daemonId, instanceId } = await this.resolveInstance(
+            panel,
+            ref
+          );
+          const data = await this.getApi(panel).downloadFile(
+            instanceId,
+            daemonId,
+            target,
+            MAX_FILE_TRANSFER_BYTES
+          );
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    path: target,
+                    size: data.length,
+                    contentBase64: data.toString("base64"),
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        } catch (error) {
+          console.error(`Error downloading file ${path}:`, error);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error downloading file: ${
+                  error instanceof Error ? error.message : String(error)
+                }`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // 读取配置项工具
+    tool(
+      "get-config-value",
+      "读取指定实例配置文件中的配置项 - 通过instance或daemonId+instanceId指定实例，支持.properties、YAML(.yml/.yaml)和JSON文件，YAML和JSON的键为以.分隔的路径，例如settings.allow-end",
+      {
+        panel: panelParam,
+        ...instanceParams,
+        filePath: z
+          .string()
+          .describe(
+            "配置文件路径 - 必填，例如：/server.properties 或 /bukkit.yml"
+          ),
+        keys: z
+          .array(z.string())
+          .min(1)
+          .describe(
+            '配置项的键 - 必填，例如：["max-players"] 或 ["settings.allow-end"]'
+          ),
+      },
+      async ({ panel, filePath, keys, ...ref }) => {
+        try {
+          const target = normalizeInstancePath(filePath);
+          const format = detectConfigFormat(target);
+          const { daemonId, instanceId } = await this.resolveInstance(
+            panel,
+            ref
+          );
+          const content = await this.getApi(panel).getFileContent(
+            instanceId,
+            daemonId,
+            target
+          );
+          const values = getConfigValues(content, format, keys);
+
+          const result = {
+            filePath: target,
+            format,
+            values,
+            missing: keys.filter((key) => !(key in values)),
+          };
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          console.error(`Error reading config values from ${filePath}:`, error);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error reading config values: ${
+                  error instanceof Error ? error.message : String(error)
+                }`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // 修改配置项工具
+    tool(
+      "set-config-values",
+      "修改指定实例配置文件中的配置项 - 通过instance或daemonId+instanceId指定实例，只修改给定的键，保留注释、顺序和其余内容，不存在的键会被添加，返回修改的差异；支持.properties、YAML和JSON文件，需要二次确认，预览后文件被修改时确认会因冲突失败",
+      {
+        panel: panelParam,
+        ...instanceParams,
+        filePath: z
+          .string()
+          .describe(
+            "配置文件路径 - 必填，例如：/server.properties 或 /spigot.yml"
+          ),
+        values: z
+          .record(z.unknown())
+          .describe(
+            '要修改的配置项 - 必填，键到新值的映射，例如：{"max-players": 50} 或 {"settings.allow-end": false}'
+          ),
+        confirmationToken: confirmationTokenParam,
+      },
+      async ({ panel, filePath, values, confirmationToken, ...ref }) => {
+        try {
+          const target = normalizeWritablePath(filePath);
+          const format = detectConfigFormat(target);
+          const keys = Object.keys(values);
+          if (keys.length === 0) {
+            throw new Error("values must contain at least one key");
+          }
+          const { daemonId, instanceId } = await this.resolveInstance(
+            panel,
+            ref
+          );
+          const api = this.getApi(panel);
+          const current = await api.getFileContent(
+            instanceId,
+            daemonId,
+            target
+          );
+          const updated = setConfigValues(current, format, values);
+          const diff = createUnifiedDiff(current, updated, target);
+          if (!diff) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `No changes: ${keys.join(
+                    ", "
+                  )} already have the requested values in ${target}`,
+                },
+              ],
+            };
+          }
+
+          const pending = await this.requireConfirmation(
+            server,
+            identity,
+            "set-config-values",
+            { panel, daemonId, instanceId, filePath: target, values },
+            confirmationToken,
+            async () =>
+              [
+                `Preview: set ${keys.join(", ")} in ${target}`,
+                `Panel: ${this.resolvePanel(panel)}`,
+                `Instance: ${instanceId}`,
+                `Daemon: ${daemonId}`,
+                `Diff:\n${diff}`,
+              ].join("\n"),
+            false,
+            current
+          );
+          if (pending) {
+            return pending;
+          }
+
+          const versionId = await this.writeFileWithVersion(
+            panel,
+            identity,
+            "set-config-values",
+            daemonId,
+            instanceId,
+            target,
+            updated,
+            current
+          );
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Successfully updated ${keys.join(
+                  ", "
+                )} in ${target}${this.formatSavedVersion(
+                  versionId
+                )}\nDiff:\n${diff}`,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error(`Error setting config values in ${filePath}:`, error);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error setting config values: ${
+                  error instanceof Error ? error.message : String(error)
+                }`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // 文件历史版本参数，查看差异和恢复版本时共用
+    const versionIdParam = z
+      .number()
+      .int()
+      .positive()
+      .describe("版本ID - 必填，通过list-file-versions获取");
+
+    // 列出文件历史版本工具
+    tool(
+      "list-file-versions",
+      "列出指定实例文件的历史版本 - 通过instance或daemonId+instanceId指定实例，update-file、set-config-values等工具写入文件前会保存文件的当前内容，最新的版本在前",
+      {
+        panel: panelParam,
+        ...instanceParams,
+        filePath: z
+          .string()
+          .describe("文件路径 - 必填，例如：/server.properties"),
+      },
+      async ({ panel, filePath, ...ref }) => {
+        try {
+          const target = normalizeWritablePath(filePath);
+          const { daemonId, instanceId } = await this.resolveInstance(
+            panel,
+            ref
+          );
+          const versions = this.fileVersions.list({
+            panel: this.resolvePanel(panel),
+            daemonId,
+            instanceId,
+            path: target,
+          });
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({ filePath: target, versions }, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          console.error(`Error listing versions of ${filePath}:`, error);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error listing file versions: ${
+                  error instanceof Error ? error.message : String(error)
+                }`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // 比较文件历史版本工具
+    tool(
+      "diff-file-version",
+      "比较指定实例文件的历史版本 - 通过instance或daemonId+instanceId指定实例，默认比较该版本与文件的当前内容，也可以与另一个版本比较，返回统一差异格式（unified diff）",
+      {
+        panel: panelParam,
+        ...instanceParams,
+        filePath: z
+          .string()
+          .describe("文件路径 - 必填，例如：/server.properties"),
+        versionId: versionIdParam,
+        compareTo: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("比较的另一个版本ID - 可选，不填则与文件的当前内容比较"),
+      },
+      async ({ panel, filePath, versionId, compareTo, ...ref }) => {
+        try {
+          const target = normalizeWritablePath(filePath);
+          const { daemonId, instanceId } = await this.resolveInstance(
+            panel,
+            ref
+          );
+          const file = {
+            panel: this.resolvePanel(panel),
+            daemonId,
+            instanceId,
+            path: target,
+          };
+          const content = this.getFileVersion(file, versionId);
+          const other =
+            compareTo === undefined
+              ? await this.getApi(panel).getFileContent(
+                  instanceId,
+                  daemonId,
+                  target
+                )
+              : this.getFileVersion(file, compareTo);
+          const diff = createUnifiedDiff(content, other, target);
+          const against =
+            compareTo === undefined
+              ? "the current content"
+              : `version ${compareTo}`;
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: diff
+                  ? `Diff from version ${versionId} to ${against} of ${target}:\n${diff}`
+                  : `Version ${versionId} is identical to ${against} of ${target}`,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error(`Error diffing version of ${filePath}:`, error);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error diffing file version: ${
+                  error instanceof Error ? error.message : String(error)
+                }`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // 恢复文件历史版本工具
+    tool(
+      "restore-file-version",
+      "将指定实例文件恢复为某个历史版本 - 通过instance或daemonId+instanceId指定实例，恢复前会保存文件的当前内容，因此恢复操作本身也可以撤销，需要二次确认",
+      {
+        panel: panelParam,
+        ...instanceParams,
+        filePath: z
+          .string()
+          .describe("文件路径 - 必填，例如：/server.properties"),
+        versionId: versionIdParam,
+        confirmationToken: confirmationTokenParam,
+      },
+      async ({ panel, filePath, versionId, confirmationToken, ...ref }) => {
+        try {
+          const target = normalizeWritablePath(filePath);
+          const { daemonId, instanceId } = await this.resolveInstance(
+            panel,
+            ref
+          );
+          const content = this.getFileVersion(
+            {
+              panel: this.resolvePanel(panel),
+              daemonId,
+              instanceId,
+              path: target,
+            },
+            versionId
+          );
+          const api = this.getApi(panel);
+          let current: string | undefined;
+          try {
+            current = await api.getFileContent(instanceId, daemonId, target);
+          } catch (error) {
+            if (!(error instanceof NotFoundError)) {
+              throw error;
+            }
+          }
+          const diff = createUnifiedDiff(current ?? "", content, target);
+          if (current !== undefined && !diff) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `No changes: ${target} already matches version ${versionId}`,
+                },
+              ],
+            };
+          }
+
+          const pending = await this.requireConfirmation(
+            server,
+            identity,
+            "restore-file-version",
+            { panel, daemonId, instanceId, filePath: target, versionId },
+            confirmationToken,
+            async () =>
+              [
+                `Preview: restore ${target} to version ${versionId}`,
+                `Panel: ${this.resolvePanel(panel)}`,
+                `Instance: ${instanceId}`,
+                `Daemon: ${daemonId}`,
+                current === undefined
+                  ? "The file no longer exists and will be recreated"
+                  : `Diff:\n${diff}`,
+              ].join("\n")
+          );
+          if (pending) {
+            return pending;
+          }
+
+          const savedId = await this.writeFileWithVersion(
+            panel,
+            identity,
+            "restore-file-version",
+            daemonId,
+            instanceId,
+            target,
+            content,
+            current
+          );
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Successfully restored ${target} to version ${versionId}${this.formatSavedVersion(
+                  savedId
+                )}`,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error(`Error restoring version of ${filePath}:`, error);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error restoring file version: ${
+                  error instanceof Error ? error.message : String(error)
+                }`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // 计划任务参数，创建和修改计划任务时共用
+    const scheduleParams = {
+      kind: z
+        .enum(["interval", "cycle", "once"])
+        .describe(
+          "任务类型 - interval为每隔固定秒数执行，cycle为每天或每周的固定时间执行，once为在指定时间执行一次"
+        ),
+      intervalSeconds: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe("间隔秒数 - interval类型必填，例如：3600"),
+      time: z
+        .string()
+        .optional()
+        .describe("执行时间 - cycle类型必填，HH:MM或HH:MM:SS，例如：04:00"),
+      weekdays: z
+        .array(z.number().int().min(1).max(7))
+        .optional()
+        .describe(
+          "执行的星期 - cycle类型可选，1-7表示星期一到星期日，不填表示每天"
+        ),
+      at: z
+        .string()
+        .datetime({ offset: true })
+        .optional()
+        .describe(
+          "执行时间 - once类型必填，ISO 8601格式，例如：2024-01-01T04:00:00+08:00"
+        ),
+      action: z
+        .enum(["command", "start", "stop", "restart", "kill"])
+        .describe(
+          "执行的操作 - command为发送命令，start、stop、restart、kill为启动、停止、重启、强制终止实例"
+        ),
+      payload: z
+        .string()
+        .optional()
+        .describe(
+          "要发送的命令 - action为command时必填，例如：say 服务器将在5分钟后重启"
+        ),
+      count: z
+        .number()
+        .int()
+        .min(-1)
+        .optional()
+        .describe(
+          "执行次数 - 可选，-1表示不限，默认interval和cycle类型为-1，once类型为1"
+        ),
+    };
+
+    // 获取计划任务列表工具
+    tool(
+      "list-schedules",
+      "获取指定实例的计划任务列表 - 通过instance或daemonId+instanceId指定实例，返回每个任务的类型、执行时间、操作、剩余次数和下一次执行时间",
+      {
+        panel: panelParam,
+        ...instanceParams,
+      },
+      async ({ panel, ...ref }) => {
+        try {
+          const { daemonId, instanceId } = await this.resolveInstance(
+            panel,
+            ref
+          );
+          const schedules = await this.getApi(panel).getSchedules(
+            instanceId,
+            daemonId
+          );
+          const now = new Date();
+
+          const result = {
+            now: now.toISOString(),
+            schedules: schedules.map((schedule) =>
+              summarizeSchedule(schedule, now)
+            ),
+          };
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          console.error(
+            `Error fetching schedules for instance ${this.formatInstanceRef(
+              ref
+            )}:`,
+            error
+          );
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error fetching schedules: ${
+                  error instanceof Error ? error.message : String(error)
+                }`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // 创建计划任务工具
+    tool(
+      "create-schedule",
+      "为指定实例创建计划任务 - 通过instance或daemonId+instanceId指定实例，支持间隔执行、每天或每周固定时间执行和指定时间执行一次，操作可以是发送命令或启动、停止、重启、强制终止实例；例如每天4点重启并提前5分钟提醒玩家，可以创建03:55的command任务和04:00的restart任务",
+      {
+        panel: panelParam,
+        ...instanceParams,
+        name: z.string().min(1).describe("任务名称 - 必填，同一实例中唯一"),
+        ...scheduleParams,
+      },
+      async ({
+        panel,
+        name,
+        kind,
+        intervalSeconds,
+        time,
+        weekdays,
+        at,
+        action,
+        payload,
+        count,
+        ...ref
+      }) => {
+        try {
+          const { daemonId, instanceId } = await this.resolveInstance(
+            panel,
+            ref
+          );
+          const api = this.getApi(panel);
+          const schedule = buildSchedule(name, {
+            kind,
+            intervalSeconds,
+            time,
+            weekdays,
+            at,
+            action,
+            payload,
+            count,
+          });
+          const existing = await api.getSchedules(instanceId, daemonId);
+          if (existing.some((item) => item.name === name)) {
+            throw new Error(
+              `Schedule "${name}" already exists, use update-schedule to change it`
+            );
+          }
+
+          await api.createSchedule(instanceId, daemonId, schedule);
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Successfully created schedule ${name}\n${JSON.stringify(
+                  summarizeSchedule(schedule),
+                  null,
+                  2
+                )}`,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error(`Error creating schedule ${name}:`, error);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error creating schedule: ${
+                  error instanceof Error ? error.message : String(error)
+                }`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // 修改计划任务工具
+    tool(
+      "update-schedule",
+      "修改指定实例的计划任务 - 通过instance或daemonId+instanceId指定实例，只修改提供的参数，未提供的执行时间参数沿用原任务(weekdays传[]表示改为每天)；面板不支持直接修改，会删除原任务后重新创建，创建失败时恢复原任务",
+      {
+        panel: panelParam,
+        ...instanceParams,
+        name: z.string().min(1).describe("任务名称 - 必填"),
+        ...scheduleParams,
+        kind: scheduleParams.kind.optional(),
+        action: scheduleParams.action.optional(),
+      },
+      async ({
+        panel,
+        name,
+        kind,
+        intervalSeconds,
+        time,
+        weekdays,
+        at,
+        action,
+        payload,
+        count,
+        ...ref
+      }) => {
+        try {
+          const { daemonId, instanceId } = await this.resolveInstance(
+            panel,
+            ref
+          );
+          const api = this.getApi(panel);
+          const existing = (await api.getSchedules(instanceId, daemonId)).find(
+            (item) => item.name === name
+          );
+          if (!existing) {
+            throw new Error(
+              `Schedule "${name}" not found, use list-schedules to see the schedules of this instance`
+            );
+          }
+          const current = summarizeSchedule(existing);
+          if (current.kind === "unknown") {
+            throw new Error(
+              `Schedule "${name}" has an unknown type ${existing.type} and cannot be updated, delete and recreate it instead`
+            );
+          }
+
+          // 未修改类型和执行时间时沿用原任务的时间；否则未提供的执行时间参数取自原任务
+          const timeChanged = [kind, intervalSeconds, time, weekdays, at].some(
+            (value) => value !== undefined
+          );
+          const previous = parseScheduleTime(current.kind, existing.time);
+          const schedule = buildSchedule(
+            name,
+            {
+              kind: kind ?? current.kind,
+              intervalSeconds: intervalSeconds ?? previous.intervalSeconds,
+              time: time ?? previous.time,
+              weekdays: weekdays ?? previous.weekdays,
+              at: at ?? previous.at,
+              action: action ?? existing.action,
+              payload: payload ?? existing.payload ?? undefined,
+              count: count ?? existing.count,
+            },
+            timeChanged ? undefined : existing.time
+          );
+
+          await api.deleteSchedule(instanceId, daemonId, name);
+          try {
+            await api.createSchedule(instanceId, daemonId, schedule);
+          } catch (error) {
+            await api
+              .createSchedule(instanceId, daemonId, {
+                name,
+                count: existing.count ?? -1,
+                time: existing.time,
+                action: existing.action,
+                type: existing.type,
+                payload: existing.payload ?? "",
+              })
+              .catch((restoreError) =>
+                console.error(
+                  `Error restoring schedule ${name} after a failed update:`,
+                  restoreError
+                )
+              );
+            throw error;
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Successfully updated schedule ${name}\n${JSON.stringify(
+                  summarizeSchedule(schedule),
+                  null,
+                  2
+                )}`,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error(`Error updating schedule ${name}:`, error);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error updating schedule: ${
+                  error instanceof Error ? error.message : String(error)
+                }`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // 删除计划任务工具
+    tool(
+      "delete-schedule",
+      "删除指定实例的计划任务 - 通过instance或daemonId+instanceId指定实例",
+      {
+        panel: panelParam,
+        ...instanceParams,
+        name: z.string().min(1).describe("任务名称 - 必填"),
+      },
+      async ({ panel, name, ...ref }) => {
+        try {
+          const { daemonId, instanceId } = await this.resolveInstance(
+            panel,
+            ref
+          );
+          const api = this.getApi(panel);
+          const existing = await api.getSchedules(instanceId, daemonId);
+          if (!existing.some((item) => item.name === name)) {
+            throw new Error(
+              `Schedule "${name}" not found, use list-schedules to see the schedules of this instance`
+            );
+          }
+
+          await api.deleteSchedule(instanceId, daemonId, name);
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Successfully deleted schedule ${name}`,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error(`Error deleting schedule ${name}:`, error);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error deleting schedule: ${
+                  error instanceof Error ? error.message : String(error)
+                }`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // 实例配置参数，创建、修改和复制实例时共用
+    const instanceConfigParams = {
+      type: z
+        .string()
+        .optional()
+        .describe(
+          "实例类型 - 可选，例如：universal、minecraft/java、minecraft/bedrock"
+        ),
+      cwd: z
+        .string()
+        .optional()
+        .describe("工作目录 - 可选，为空时由守护进程自动分配"),
+      startCommand: z
+        .string()
+        .optional()
+        .describe("启动命令 - 可选，例如：java -Xmx4G -jar server.jar nogui"),
+      stopCommand: z
+        .string()
+        .optional()
+        .describe("停止命令 - 可选，例如：stop，^C表示发送Ctrl+C"),
+      ie: z.string().optional().describe("输入编码 - 可选，例如：utf-8"),
+      oe: z.string().optional().describe("输出编码 - 可选，例如：utf-8"),
+      fileCode: z.string().optional().describe("文件编码 - 可选，例如：utf-8"),
+      processType: z
+        .enum(["general", "docker"])
+        .optional()
+        .describe("进程类型 - 可选，general或docker"),
+      tag: z.array(z.string()).optional().describe("实例标签 - 可选"),
+    };
+
+    // 创建实例工具
+    tool(
+      "create-instance",
+      "在指定守护进程上创建实例 - 必须提供daemonId和nickname，其余配置可选",
+      {
+        panel: panelParam,
+        daemonId: z
+          .string()
+          .describe("守护进程ID - 必填，从get-daemons返回的id字段获取"),
+        nickname: z.string().describe("实例名称 - 必填"),
+        ...instanceConfigParams,
+      },
+      async ({
+        panel,
+        daemonId,
+        nickname,
+        type = "universal",
+        cwd = "",
+        startCommand = "",
+        stopCommand = "^C",
+        ie = "utf-8",
+        oe = "utf-8",
+        fileCode = "utf-8",
+        processType = "general",
+        tag = [],
+      }) => {
+        try {
+          const created = await this.getApi(panel).createInstance(daemonId, {
+            nickname,
+            type,
+            cwd,
+            startCommand,
+            stopCommand,
+            ie,
+            oe,
+            fileCode,
+            processType,
+            tag,
+          });
+          this.resolvers[this.resolvePanel(panel)].invalidate();
+
+          const instanceId = created.instanceUuid;
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Successfully created instance ${nickname}${
+                  instanceId ? ` (${instanceId})` : ""
+                } on daemon ${daemonId}`,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error(
+            `Error creating instance on daemon ${daemonId}:`,
+            error
+          );
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error creating instance: ${
+                  error instanceof Error ? error.message : String(error)
+                }`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // 修改实例配置工具
+    tool(
+      "update-instance-config",
+      "修改指定实例的配置 - 通过instance或daemonId+instanceId指定实例，只修改提供的配置项",
+      {
+        panel: panelParam,
+        ...instanceParams,
+        nickname: z.string().optional().describe("实例名称 - 可选"),
+        ...instanceConfigParams,
+      },
+      async ({
+        panel,
+        daemonId: daemonIdRef,
+        instanceId: instanceIdRef,
+        instance,
+        ...config
+      }) => {
+        const ref = {
+          daemonId: daemonIdRef,
+          instanceId: instanceIdRef,
+          instance,
+        };
+        try {
+          const { daemonId, instanceId } = await this.resolveInstance(
+            panel,
+            ref
+          );
+          const changes = Object.fromEntries(
+            Object.entries(config).filter(([, value]) => value !== undefined)
+          );
+          if (Object.keys(changes).length === 0) {
+            throw new Error("No configuration changes were provided");
+          }
+
+          await this.getApi(panel).updateInstanceConfig(
+            instanceId,
+            daemonId,
+            changes
+          );
+          this.resolvers[this.resolvePanel(panel)].invalidate();
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Successfully updated config of instance ${instanceId}: ${Object.keys(
+                  changes
+                ).join(", ")}`,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error(
+            `Error updating config of instance ${this.formatInstanceRef(ref)}:`,
+            error
+          );
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error updating instance config: ${
+                  error instanceof Error ? error.message : String(error)
+                }`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // 复制实例工具
+    tool(
+      "clone-instance",
+      "将指定实例的配置复制为另一个守护进程上的新实例 - 通过instance或daemonId+instanceId指定源实例，必须提供targetDaemonId，只复制配置不复制文件",
+      {
+        panel: panelParam,
+        ...instanceParams,
+        targetDaemonId: z
+          .string()
+          .describe("目标守护进程ID - 必填，新实例所在的守护进程"),
+        nickname: z
+          .string()
+          .optional()
+          .describe("新实例名称 - 可选，默认为源实例名称加上(copy)后缀"),
+        cwd: z
+          .string()
+          .optional()
+          .describe("新实例工作目录 - 可选，为空时由守护进程自动分配"),
+      },
+      async ({ panel, targetDaemonId, nickname, cwd, ...ref }) => {
+        try {
+          if (!isDaemonAllowed(this.config.accessPolicy, targetDaemonId)) {
+            throw new Error(
+              `Access to daemon ${targetDaemonId} is denied by the server policy`
+            );
+          }
+
+          const api = this.getApi(panel);
+          const { daemonId, instanceId } = await this.resolveInstance(
+            panel,
+            ref
+          );
+          const detail = await api.getInstanceDetail(instanceId, daemonId);
+
+          const source = detail.config;
+          const created = await api.createInstance(targetDaemonId, {
+            ...source,
+            nickname: nickname ?? `${source.nickname} (copy)`,
+            cwd: cwd ?? "",
+            createDatetime: undefined,
+            lastDatetime: undefined,
+          });
+          this.resolvers[this.resolvePanel(panel)].invalidate();
+
+          const newInstanceId = created.instanceUuid;
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Successfully cloned instance ${instanceId} to daemon ${targetDaemonId}${
+                  newInstanceId ? ` as ${newInstanceId}` : ""
+                }. Files were not copied.`,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error(
+            `Error cloning instance ${this.formatInstanceRef(ref)}:`,
+            error
+          );
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error cloning instance: ${
+                  error instanceof Error ? error.message : String(error)
+                }`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // 删除实例工具
+    tool(
+      "delete-instance",
+      "删除指定实例 - 通过instance或daemonId+instanceId指定实例，实例必须处于停止状态；始终需要确认，首次调用返回预览和确认令牌",
+      {
+        panel: panelParam,
+        ...instanceParams,
+        deleteFiles: z
+          .boolean()
+          .describe(
+            "是否删除实例文件 - 必填，true会永久删除实例工作目录中的所有文件"
+          ),
+        confirmationToken: z
+          .string()
+          .optional()
+          .describe(
+            "确认令牌 - 可选，首次调用返回操作预览和确认令牌，携带该令牌再次调用才会真正执行"
+          ),
+      },
+      async ({ panel, deleteFiles, confirmationToken, ...ref }) => {
+        try {
+          const api = this.getApi(panel);
+          const { daemonId, instanceId } = await this.resolveInstance(
+            panel,
+            ref
+          );
+
+          // 安全检查：只能删除已停止的实例
+          const detail = await api.getInstanceDetail(instanceId, daemonId, {
+            fresh: true,
+          });
+          if (detail.status !== INSTANCE_STATUS.stopped) {
+            throw new Error(
+              `Instance ${instanceId} is ${this.getStatusText(
+                detail.status
+              )}, stop it before deleting`
+            );
+          }
+
+          const pending = await this.requireConfirmation(
+            server,
+            identity,
+            "delete-instance",
+            { panel, daemonId, instanceId, deleteFiles },
+            confirmationToken,
+            async () =>
+              [
+                await this.describeInstanceAction(
+                  panel,
+                  "delete",
+                  daemonId,
+                  instanceId
+                ),
+                `Working directory: ${detail.config.cwd}`,
+                deleteFiles
+                  ? "WARNING: All files in the working directory will be permanently deleted."
+                  : "Files will be kept on the daemon.",
+              ].join("\n"),
+            true
+          );
+          if (pending) {
+            return pending;
+          }
+
+          await api.deleteInstance(instanceId, daemonId, deleteFiles);
+          this.resolvers[this.resolvePanel(panel)].invalidate();
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Successfully deleted instance ${instanceId}${
+                  deleteFiles ? " and its files" : ", files were kept"
+                }`,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error(
+            `Error deleting instance ${this.formatInstanceRef(ref)}:`,
+            error
+          );
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error deleting instance: ${
+                  error instanceof Error ? error.message : String(error)
+                }`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // 用户参数，修改和删除用户时共用
+    const userIdParam = z
+      .string()
+      .describe("用户ID - 必填，用户的uuid，通过list-users获取");
+    const roleParam = z
+      .enum(["user", "admin", "banned"])
+      .describe(
+        "用户角色 - user为普通用户，只能访问分配给他的实例；admin为管理员；banned为禁止登录"
+      );
+
+    // 获取用户列表工具
+    tool(
+      "list-users",
+      "获取面板用户列表 - 可按用户名搜索、按角色过滤，返回用户ID、用户名、角色、注册和登录时间以及可以访问的实例，不包含密码和API密钥等敏感信息",
+      {
+        panel: panelParam,
+        userName: z.string().optional().describe("用户名 - 可选，模糊匹配"),
+        role: roleParam.optional(),
+        page: z.number().int().min(1).optional().describe("页码 - 可选，默认1"),
+        pageSize: z
+          .number()
+          .int()
+          .min(1)
+          .max(100)
+          .optional()
+          .describe("每页数量 - 可选，默认20"),
+      },
+      async ({ panel, userName, role, page = 1, pageSize = 20 }) => {
+        try {
+          const users = await this.getApi(panel).getUsers(page, pageSize, {
+            userName,
+            role: role && USER_ROLES[role],
+          });
+
+          const result = {
+            page: users.page ?? page,
+            pageSize: users.pageSize ?? pageSize,
+            maxPage: users.maxPage,
+            total: users.total,
+            users: users.data.map(formatUser),
+          };
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          console.error("Error fetching users:", error);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error fetching users: ${
+                  error instanceof Error ? error.message : String(error)
+                }`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // 创建用户工具
+    tool(
+      "create-user",
+      "创建面板用户 - 必须提供用户名和密码，默认创建普通用户，之后可以通过grant-instance-access分配实例",
+      {
+        panel: panelParam,
+        userName: z.string().min(1).describe("用户名 - 必填"),
+        password: z
+          .string()
+          .min(1)
+          .describe("密码 - 必填，长度和复杂度要求由面板决定"),
+        role: roleParam.optional(),
+      },
+      async ({ panel, userName, password, role = "user" }) => {
+        try {
+          const api = this.getApi(panel);
+          await api.createUser(userName, password, USER_ROLES[role]);
+          const created = (await api.getUsers(1, 100, { userName })).data.find(
+            (user) => user.userName === userName
+          );
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Successfully created ${role} ${userName}${
+                  created
+                    ? `\n${JSON.stringify(formatUser(created), null, 2)}`
+                    : ""
+                }`,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error(`Error creating user ${userName}:`, error);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error creating user: ${
+                  error instanceof Error ? error.message : String(error)
+                }`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // 删除用户工具
+    tool(
+      "delete-user",
+      "删除面板用户 - 需要二次确认，首次调用返回用户信息预览和确认令牌",
+      {
+        panel: panelParam,
+        userId: userIdParam,
+        confirmationToken: confirmationTokenParam,
+      },
+      async ({ panel, userId, confirmationToken }) => {
+        try {
+          const user = await this.findUser(panel, userId);
+          const pending = await this.requireConfirmation(
+            server,
+            identity,
+            "delete-user",
+            { panel, userId },
+            confirmationToken,
+            async () =>
+              [
+                `Preview: delete user ${user.userName ?? userId}`,
+                `Panel: ${this.resolvePanel(panel)}`,
+                `User: ${userId}`,
+                `Role: ${getUserRole(user.permission)}`,
+                `Instances: ${user.instances?.length ?? 0}`,
+              ].join("\n")
+          );
+          if (pending) {
+            return pending;
+          }
+
+          await this.getApi(panel).deleteUsers([userId]);
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Successfully deleted user ${user.userName ?? userId}`,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error(`Error deleting user ${userId}:`, error);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error deleting user: ${
+                  error instanceof Error ? error.message : String(error)
+                }`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // 修改用户角色工具
+    tool(
+      "set-user-role",
+      "修改面板用户的角色 - 可以将用户设为普通用户、管理员或禁止登录，设为管理员或取消管理员时需要二次确认",
+      {
+        panel: panelParam,
+        userId: userIdParam,
+        role: roleParam,
+        confirmationToken: confirmationTokenParam,
+      },
+      async ({ panel, userId, role, confirmationToken }) => {
+        try {
+          const user = await this.findUser(panel, userId);
+          const previous = getUserRole(user.permission);
+          if (previous === role) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `No changes: ${
+                    user.userName ?? userId
+                  } is already ${role}`,
+                },
+              ],
+            };
+          }
+
+          // 管理员可以管理所有实例和用户，授予或撤销管理员权限需要确认
+          if (role === "admin" || previous === "admin") {
+            const pending = await this.requireConfirmation(
+              server,
+              identity,
+              "set-user-role",
+              { panel, userId, role },
+              confirmationToken,
+              async () =>
+                [
+                  `Preview: change the role of ${
+                    user.userName ?? userId
+                  } from ${previous} to ${role}`,
+                  `Panel: ${this.resolvePanel(panel)}`,
+                  `User: ${userId}`,
+                  role === "admin"
+                    ? "The user will be able to manage all instances, users and panel settings."
+                    : "The user will lose access to the panel settings and to instances not assigned to them.",
+                ].join("\n")
+            );
+            if (pending) {
+              return pending;
+            }
+          }
+
+          await this.getApi(panel).updateUser(userId, {
+            permission: USER_ROLES[role],
+          });
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Successfully changed the role of ${
+                  user.userName ?? userId
+                } from ${previous} to ${role}`,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error(`Error changing role of user ${userId}:`, error);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error changing user role: ${
+                  error instanceof Error ? error.message : String(error)
+                }`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // 分配实例权限工具
+    tool(
+      "grant-instance-access",
+      "允许面板用户访问指定实例 - 通过instance或daemonId+instanceId指定实例，用户已有的其他实例权限保持不变",
+      {
+        panel: panelParam,
+        userId: userIdParam,
+        ...instanceParams,
+      },
+      async ({ panel, userId, ...ref }) => {
+        try {
+          const { daemonId, instanceId } = await this.resolveInstance(
+            panel,
+            ref
+          );
+          const user = await this.findUser(panel, userId);
+          const instances = (user.instances ?? []).map(
+            ({ instanceUuid, daemonId }) => ({ instanceUuid, daemonId })
+          );
+          if (
+            instances.some(
+              (instance) =>
+                instance.instanceUuid === instanceId &&
+                instance.daemonId === daemonId
+            )
+          ) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `No changes: ${
+                    user.userName ?? userId
+                  } can already access instance ${instanceId}`,
+                },
+              ],
+            };
+          }
+
+          instances.push({ instanceUuid: instanceId, daemonId });
+          await this.getApi(panel).updateUser(userId, { instances });
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Successfully granted ${
+                  user.userName ?? userId
+                } access to instance ${instanceId} on daemon ${daemonId}`,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error(`Error granting instance access to ${userId}:`, error);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error granting instance access: ${
+                  error instanceof Error ? error.message : String(error)
+                }`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // 撤销实例权限工具
+    tool(
+      "revoke-instance-access",
+      "撤销面板用户对指定实例的访问权限 - 通过instance或daemonId+instanceId指定实例，用户的其他实例权限保持不变",
+      {
+        panel: panelParam,
+        userId: userIdParam,
+        ...instanceParams,
+      },
+      async ({ panel, userId, ...ref }) => {
+        try {
+          const { daemonId, instanceId } = await this.resolveInstance(
+            panel,
+            ref
+          );
+          const user = await this.findUser(panel, userId);
+          const current = (user.instances ?? []).map(
+            ({ instanceUuid, daemonId }) => ({ instanceUuid, daemonId })
+          );
+          const instances = current.filter(
+            (instance) =>
+              instance.instanceUuid !== instanceId ||
+              instance.daemonId !== daemonId
+          );
+          if (instances.length === current.length) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `No changes: ${
+                    user.userName ?? userId
+                  } has no access to instance ${instanceId}`,
+                },
+              ],
+            };
+          }
+
+          await this.getApi(panel).updateUser(userId, { instances });
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Successfully revoked ${
+                  user.userName ?? userId
+                }'s access to instance ${instanceId} on daemon ${daemonId}`,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error(
+            `Error revoking instance access from ${userId}:`,
+            error
+          );
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error revoking instance access: ${
+                  error instanceof Error ? error.message : String(error)
+                }`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // 历史指标查询工具
+    tool(
+      "query-metrics",
+      "查询守护进程或实例的历史指标 - 只提供daemonId时查询守护进程指标(cpuUsage、memUsage、load1、instancesRunning、instancesTotal)，通过instance或daemonId+instanceId指定实例时查询实例指标(cpu、memory、running)，返回时间窗口内的最小值、平均值、最大值和百分位数；需要开启MCP_METRICS_ENABLED后台采样",
+      {
+        panel: panelParam,
+        ...instanceParams,
+        metrics: z
+          .array(z.enum([...DAEMON_METRICS, ...INSTANCE_METRICS]))
+          .optional()
+          .describe("指标名称 - 可选，默认返回该对象的所有指标"),
+        since: z
+          .string()
+          .datetime({ offset: true })
+          .optional()
+          .describe(
+            "开始时间 - 可选，ISO 8601格式，例如：2024-01-01T00:00:00Z，默认为24小时前"
+          ),
+        until: z
+          .string()
+          .datetime({ offset: true })
+          .optional()
+          .describe("结束时间 - 可选，ISO 8601格式，默认为当前时间"),
+        bucketSeconds: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe(
+            "分桶大小（秒） - 可选，设置后同时返回按该间隔聚合的时间序列(每个分桶的平均值和最大值)"
+          ),
+      },
+      async ({ panel, metrics, since, until, bucketSeconds, ...ref }) => {
+        try {
+          const panelName = this.resolvePanel(panel);
+          let daemonId = ref.daemonId;
+          let instanceId: string | undefined;
+          if (ref.instance || ref.instanceId) {
+            ({ daemonId, instanceId } = await this.resolveInstance(
+              panelName,
+              ref
+            ));
+          }
+          if (!daemonId) {
+            throw new Error(
+              "Either daemonId, or an instance (instance, or daemonId and instanceId), must be provided"
+            );
+          }
+
+          const available: readonly string[] = instanceId
+            ? INSTANCE_METRICS
+            : DAEMON_METRICS;
+          const invalid = (metrics ?? []).filter(
+            (metric) => !available.includes(metric)
+          );
+          if (invalid.length > 0) {
+            throw new Error(
+              `Metrics ${invalid.join(", ")} are not available for ${
+                instanceId ? "instances" : "daemons"
+              }, available metrics: ${available.join(", ")}`
+            );
+          }
+
+          const untilDate = until ? new Date(until) : new Date();
+          const sinceDate = since
+            ? new Date(since)
+            : new Date(untilDate.getTime() - 24 * 3600 * 1000);
+          const result: Record<string, MetricStats> = {};
+          for (const metric of metrics ?? available) {
+            result[metric] = this.metricsStore.query({
+              panel: panelName,
+              daemonId,
+              instanceId,
+              metric,
+              since: sinceDate,
+              until: untilDate,
+              bucketSeconds,
+            });
+          }
+
+          const hasSamples = Object.values(result).some(
+            (stats) => stats.count > 0
+          );
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    panel: panelName,
+                    daemonId,
+                    instanceId,
+                    since: sinceDate.toISOString(),
+                    until: untilDate.toISOString(),
+                    ...(!hasSamples && !this.config.metricsEnabled
+                      ? {
+                          note: "Metrics collection is disabled, set MCP_METRICS_ENABLED=true to start sampling",
+                        }
+                      : {}),
+                    metrics: result,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        } catch (error) {
+          console.error("Error querying metrics:", error);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error querying metrics: ${
+                  error instanceof Error ? error.message : String(error)
+                }`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // 审计日志查询工具
+    tool(
+      "get-audit-log",
+      "查询工具调用审计日志 - 所有参数可选，可按实例、工具、调用者、时间范围和调用结果过滤，按时间倒序返回",
+      {
+        daemonId: z.string().optional().describe("守护进程ID - 可选"),
+        instanceId: z.string().optional().describe("实例ID - 可选"),
+        toolName: z
+          .string()
+          .optional()
+          .describe("工具名称 - 可选，例如：stop-instance"),
+        identity: z
+          .string()
+          .optional()
+          .describe("调用者身份 - 可选，即访问令牌名称"),
+        outcome: z
+          .enum(["success", "error", "pending", "declined"])
+          .optional()
+          .describe(
+            "调用结果 - 可选，success、error、pending(危险操作仅返回预览，等待确认)或declined(用户拒绝或取消了确认)"
+          ),
+        since: z
+          .string()
+          .datetime({ offset: true })
+          .optional()
+          .describe(
+            "开始时间 - 可选，ISO 8601格式，例如：2024-01-01T00:00:00Z"
+          ),
+        until: z
+          .string()
+          .datetime({ offset: true })
+          .optional()
+          .describe("结束时间 - 可选，ISO 8601格式"),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(500)
+          .optional()
+          .describe("最大返回条数 - 可选，默认50"),
+      },
+      async ({ since, until, ...filters }) => {
+        try {
+          const records = this.auditLog.query({
+            ...filters,
+            since: since ? new Date(since) : undefined,
+            until: until ? new Date(until) : undefined,
+          });
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(records, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          console.error("Error querying audit log:", error);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error querying audit log: ${
+                  error instanceof Error ? error.message : String(error)
+                }`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+  }
+
+  /**
+   * 解析面板名称，未指定时使用默认面板
+   * @param panel 面板名称
+   */
+  private resolvePanel(panel?: string): string {
+    const name = panel || this.config.defaultPanel;
+    if (!this.apis[name]) {
+      throw new Error(
+        `Unknown panel "${name}", available panels: ${Object.keys(
+          this.apis
+        ).join(", ")}`
+      );
+    }
+    return name;
+  }
+
+  /**
+   * 获取面板的API客户端
+   * @param panel 面板名称，未指定时使用默认面板
+   */
+  private getApi(panel?: string): MCSManagerAPI {
+    return this.apis[this.resolvePanel(panel)];
+  }
+
+  /**
+   * 解析实例引用为守护进程ID和实例ID
+   * 引用匹配多个实例时返回的错误会列出所有候选实例
+   * @param panel 面板名称
+   * @param ref 实例引用
+   */
+  private async resolveInstance(panel: string | undefined, ref: InstanceRef) {
+    const name = this.resolvePanel(panel);
+    const policy = this.config.accessPolicy;
+    const target = await this.resolvers[name].resolve(ref, (entry) =>
+      isInstanceAllowed(policy, entry.daemonId, entry.instanceId)
+    );
+
+    if (!isInstanceAllowed(policy, target.daemonId, target.instanceId)) {
+      throw new Error(
+        `Access to instance ${target.instanceId} is denied by the server policy`
+      );
+    }
+
+    const context = this.toolCallContext.getStore();
+    if (context) {
+      context.daemonId = target.daemonId;
+      context.instanceId = target.instanceId;
+    }
+    return target;
+  }
+
+  /**
+   * 格式化实例引用，用于日志
+   * @param ref 实例引用
+   */
+  private formatInstanceRef(ref: InstanceRef) {
+    return ref.instance ?? ref.instanceId ?? "(unknown)";
+  }
+
+  /**
+   * 获取实例的控制台输出，去除ANSI转义序列
+   * @param api MCSManager API客户端
+   * @param instanceId 实例ID
+   * @param daemonId 守护进程ID
+   */
+  private async fetchConsoleOutput(
+    api: MCSManagerAPI,
+    instanceId: string,
+    daemonId: string
+  ): Promise<string> {
+    return stripAnsi(await api.getOutputLog(instanceId, daemonId));
+  }
+
+  /**
+   * 对所有面板执行操作并汇总结果
+   * 单个面板失败不影响其他面板
+   * @param fetch 对单个面板执行的操作
+   */
+  private async collectFromPanels<T>(
+    fetch: (panel: string) => Promise<T>
+  ): Promise<PanelResult<T>[]> {
+    return Promise.all(
+      this.config.panels.map(async ({ name }) => {
+        try {
+          return { panel: name, data: await fetch(name) };
+        } catch (error) {
+          return {
+            panel: name,
+            error: error instanceof Error ? error.message : String(error),
+          };
+        }
+      })
+    );
+  }
+
+  /**
+   * 获取面板的守护进程列表
+   * @param panel 面板名称
+   * @param fresh 是否忽略缓存
+   */
+  private async fetchDaemons(panel: string, fresh?: boolean) {
+    // 使用overview接口获取守护进程列表
+    const api = this.getApi(panel);
+    const overview = await api.getOverview({ fresh });
+
+    // 从overview中提取remote字段作为守护进程列表
+    return overview.remote
+      .filter((daemon) =>
+        isDaemonAllowed(this.config.accessPolicy, daemon.uuid)
+      )
+      .map((daemon) => {
+        return {
+          id: daemon.uuid, // 守护进程ID，用于其他工具的daemonId参数
+          name: daemon.remarks,
+          version: daemon.version,
+          status: daemon.available ? "online" : "offline",
+          instances: {
+            running: daemon.instance?.running,
+            total: daemon.instance?.total,
+          },
+          system: {
+            type: daemon.system?.type,
+            platform: daemon.system?.platform,
+            hostname: daemon.system?.hostname,
+            cpuUsage: daemon.system?.cpuUsage,
+            memUsage: daemon.system?.memUsage,
+          },
+          // 熔断状态，open时对该守护进程的请求会直接失败
+          circuitBreaker: api.getCircuitStatus(daemon.uuid),
+        };
+      });
+  }
+
+  /**
+   * 获取守护进程的所有实例
+   * @param panel 面板名称
+   * @param daemonId 守护进程ID
+   */
+  private async fetchAllInstances(panel: string, daemonId: string) {
+    const api = this.getApi(panel);
+    const instances: Instance[] = [];
+    let page = 1;
+    let maxPage = 1;
+    do {
+      const instancePage = await api.getInstances(daemonId, page, 100);
+      instances.push(...instancePage.data);
+      maxPage = instancePage.maxPage ?? 1;
+      page++;
+    } while (page <= maxPage);
+
+    return instances
+      .filter((instance) =>
+        isInstanceAllowed(
+          this.config.accessPolicy,
+          daemonId,
+          instance.instanceUuid
+        )
+      )
+      .map((instance) => this.formatInstanceSummary(instance));
+  }
+
+  /**
+   * 获取实例详情
+   * @param panel 面板名称
+   * @param daemonId 守护进程ID
+   * @param instanceId 实例ID
+   * @param fresh 是否忽略缓存
+   */
+  private async fetchInstanceDetail(
+    panel: string,
+    daemonId: string,
+    instanceId: string,
+    fresh?: boolean
+  ) {
+    const instance = await this.getApi(panel).getInstanceDetail(
+      instanceId,
+      daemonId,
+      { fresh }
+    );
+    return {
+      id: instance.instanceUuid,
+      name: instance.config.nickname,
+      status: this.getStatusText(instance.status),
+      type: instance.config.type,
+      startCommand: instance.config.startCommand,
+      stopCommand: instance.config.stopCommand,
+      cwd: instance.config.cwd,
+      processInfo: instance.processInfo,
+      created: formatDatetime(instance.config.createDatetime),
+      lastModified: formatDatetime(instance.config.lastDatetime),
+      fileEncoding: instance.config.fileCode,
+      processType: instance.config.processType,
+      info: instance.info,
+    };
+  }
+
+  /**
+   * 格式化实例列表中的一项
+   * @param instance 面板返回的实例信息
+   */
+  private formatInstanceSummary(instance: Instance) {
+    return {
+      id: instance.instanceUuid, // 实例ID，用于其他工具的instanceId参数
+      name: instance.config.nickname,
+      status: this.getStatusText(instance.status),
+      type: instance.config.type,
+      tag: instance.config.tag,
+      startCommand: instance.config.startCommand,
+      stopCommand: instance.config.stopCommand,
+      cwd: instance.config.cwd,
+      processInfo: instance.processInfo,
+      created: formatDatetime(instance.config.createDatetime),
+    };
+  }
+
+  /**
+   * 检查资源URI中的守护进程和实例是否允许访问
+   * @param daemonId 守护进程ID
+   * @param instanceId 实例ID
+   */
+  private checkResourceAccess(daemonId: string, instanceId?: string) {
+    const policy = this.config.accessPolicy;
+    if (!isDaemonAllowed(policy, daemonId)) {
+      throw new Error(
+        `Access to daemon ${daemonId} is denied by the server policy`
+      );
+    }
+    if (instanceId && !isInstanceAllowed(policy, daemonId, instanceId)) {
+      throw new Error(
+        `Access to instance ${instanceId} is denied by the server policy`
+      );
+    }
+  }
+
+  /**
+   * 解析支持订阅的资源URI
+   * @param uri 资源URI
+   * @returns 读取资源所需的工具及URI中的变量
+   */
+  private parseSubscribableUri(uri: string) {
+    for (const { template, toolName } of SUBSCRIBABLE_RESOURCES) {
+      const variables = template.match(uri);
+      if (!variables) {
+        continue;
+      }
+
+      const daemonId =
+        variables.daemonId === undefined
+          ? undefined
+          : decodeURIComponent(String(variables.daemonId));
+      const instanceId =
+        variables.instanceId === undefined
+          ? undefined
+          : decodeURIComponent(String(variables.instanceId));
+      if (daemonId) {
+        this.checkResourceAccess(daemonId, instanceId);
+      }
+      return { toolName, daemonId, instanceId };
+    }
+    throw new Error(`Resource ${uri} does not support subscriptions`);
+  }
+
+  /**
+   * 获取订阅资源的状态摘要
+   * 只包含在线状态和实例状态，CPU和内存等频繁变化的数据不会触发通知
+   * @param uri 资源URI
+   */
+  private async fetchResourceState(uri: string): Promise<string> {
+    const panel = this.config.defaultPanel;
+    const { daemonId, instanceId } = this.parseSubscribableUri(uri);
+
+    if (daemonId && instanceId) {
+      const instance = await this.fetchInstanceDetail(
+        panel,
+        daemonId,
+        instanceId
+      );
+      return JSON.stringify({ status: instance.status });
+    }
+
+    const daemons = await this.fetchDaemons(panel);
+    if (!daemonId) {
+      return JSON.stringify(
+        daemons.map((daemon) => ({ id: daemon.id, status: daemon.status }))
+      );
+    }
+
+    const daemon = daemons.find((daemon) => daemon.id === daemonId);
+    if (!daemon || daemon.status !== "online") {
+      return JSON.stringify({ status: daemon ? daemon.status : "missing" });
+    }
+    const instances = await this.fetchAllInstances(panel, daemonId);
+    return JSON.stringify({
+      status: daemon.status,
+      instances: instances.map((instance) => ({
+        id: instance.id,
+        status: instance.status,
+      })),
+    });
+  }
+
+  /**
+   * 获取面板的概览信息
+   * @param panel 面板名称
+   * @param fresh 是否忽略缓存
+   */
+  private async fetchOverview(panel: string, fresh?: boolean) {
+    const overview = await this.getApi(panel).getOverview({ fresh });
+    const overviewInfo = {
+      version: overview.version,
+      specifiedDaemonVersion: overview.specifiedDaemonVersion,
+      process: overview.process,
+      record: overview.record,
+      system: {
+        user: overview.system?.user,
+        time: overview.system?.time,
+        totalmem: overview.system?.totalmem,
+        freemem: overview.system?.freemem,
+        type: overview.system?.type,
+        version: overview.system?.version,
+        node: overview.system?.node,
+        hostname: overview.system?.hostname,
+        loadavg: overview.system?.loadavg,
+        platform: overview.system?.platform,
+        release: overview.system?.release,
+        uptime: overview.system?.uptime,
+        cpu: overview.system?.cpu,
+      },
+      remoteCount: {
+        available: overview.remoteCount?.available,
+        total: overview.remoteCount?.total,
+      },
+      remote: overview.remote
+        .filter((daemon) =>
+          isDaemonAllowed(this.config.accessPolicy, daemon.uuid)
+        )
+        .map((daemon) => ({
+          version: daemon.version,
+          process: daemon.process,
+          instance: daemon.instance,
+          system: {
+            type: daemon.system?.type,
+            hostname: daemon.system?.hostname,
+            platform: daemon.system?.platform,
+            release: daemon.system?.release,
+            uptime: daemon.system?.uptime,
+            cwd: daemon.system?.cwd,
+            loadavg: daemon.system?.loadavg,
+            freemem: daemon.system?.freemem,
+            cpuUsage: daemon.system?.cpuUsage,
+            memUsage: daemon.system?.memUsage,
+            totalmem: daemon.system?.totalmem,
+            processCpu: daemon.system?.processCpu,
+            processMem: daemon.system?.processMem,
+          },
+          uuid: daemon.uuid,
+          ip: daemon.ip,
+          port: daemon.port,
+          prefix: daemon.prefix,
+          available: daemon.available,
+          remarks: daemon.remarks,
+        })),
+    };
+
+    return overviewInfo;
+  }
+
+  /**
+   * 生成Prometheus文本格式的指标
+   * 包含各面板的版本和可用性、守护进程的资源使用和实例数量、实例状态，
+   * 以及MCP服务器自身的工具调用统计和活动会话数。访问策略禁止的守护进程和实例不会输出
+   */
+  private async renderPrometheusMetrics() {
+    const panels = await this.collectFromPanels(async (panel) => {
+      const overview = await this.fetchOverview(panel);
+      const instances = await Promise.all(
+        overview.remote.map(async (daemon) => {
+          if (!daemon.available) {
+            return [];
+          }
+          try {
+            return await this.fetchAllInstances(panel, daemon.uuid);
+          } catch (error) {
+            console.error(
+              `Error fetching instances of daemon ${daemon.uuid} for metrics:`,
+              error
+            );
+            return [];
+          }
+        })
+      );
+      return { overview, instances };
+    });
+
+    const info: MetricSampleLine[] = [];
+    const up: MetricSampleLine[] = [];
+    const available: MetricSampleLine[] = [];
+    const cpuUsage: MetricSampleLine[] = [];
+    const memUsage: MetricSampleLine[] = [];
+    const running: MetricSampleLine[] = [];
+    const total: MetricSampleLine[] = [];
+    const instanceStatus: MetricSampleLine[] = [];
+    for (const result of panels) {
+      up.push({
+        labels: { panel: result.panel },
+        value: "data" in result ? 1 : 0,
+      });
+      if (!("data" in result)) {
+        continue;
+      }
+
+      const { overview, instances } = result.data;
+      info.push({
+        labels: { panel: result.panel, version: String(overview.version) },
+        value: 1,
+      });
+      overview.remote.forEach((daemon, index) => {
+        const labels = {
+          panel: result.panel,
+          daemon: daemon.uuid,
+          daemon_name: String(daemon.remarks ?? ""),
+        };
+        available.push({ labels, value: daemon.available ? 1 : 0 });
+        if (!daemon.available) {
+          return;
+        }
+        cpuUsage.push({ labels, value: Number(daemon.system?.cpuUsage) });
+        memUsage.push({ labels, value: Number(daemon.system?.memUsage) });
+        running.push({ labels, value: Number(daemon.instance?.running) });
+        total.push({ labels, value: Number(daemon.instance?.total) });
+        for (const instance of instances[index]) {
+          instanceStatus.push({
+            labels: {
+              panel: result.panel,
+              daemon: daemon.uuid,
+              instance: instance.id,
+              instance_name: String(instance.name ?? ""),
+            },
+            value: INSTANCE_STATUS[instance.status] ?? -2,
+          });
+        }
+      });
+    }
+
+    const output = new PrometheusText();
+    output.metric(
+      "mcsmanager_panel_up",
+      "gauge",
+      "Whether the last scrape of the MCSManager panel succeeded",
+      up
+    );
+    output.metric(
+      "mcsmanager_panel_info",
+      "gauge",
+      "MCSManager panel version information",
+      info
+    );
+    output.metric(
+      "mcsmanager_daemon_available",
+      "gauge",
+      "Whether the daemon is online",
+      available
+    );
+    output.metric(
+      "mcsmanager_daemon_cpu_usage_ratio",
+      "gauge",
+      "CPU usage of the daemon host (0-1)",
+      cpuUsage
+    );
+    output.metric(
+      "mcsmanager_daemon_memory_usage_ratio",
+      "gauge",
+      "Memory usage of the daemon host (0-1)",
+      memUsage
+    );
+    output.metric(
+      "mcsmanager_daemon_instances_running",
+      "gauge",
+      "Number of running instances on the daemon",
+      running
+    );
+    output.metric(
+      "mcsmanager_daemon_instances_total",
+      "gauge",
+      "Total number of instances on the daemon",
+      total
+    );
+    output.metric(
+      "mcsmanager_instance_status",
+      "gauge",
+      "Instance status (-1 busy, 0 stopped, 1 stopping, 2 starting, 3 running)",
+      instanceStatus
+    );
+    this.toolMetrics.write(output);
+    output.metric(
+      "mcp_active_sessions",
+      "gauge",
+      "Number of active MCP sessions",
+      [{ value: Object.keys(this.sessions).length }]
+    );
+    return output.toString();
+  }
+
+  /**
+   * 执行工具调用并记录审计日志
+   * @param toolName 工具名称
+   * @param identity 会话身份
+   * @param toolArgs 工具参数
+   * @param extra 请求上下文
+   * @param run 执行工具
+   */
+  private async runTool(
+    toolName: string,
+    identity: SessionIdentity,
+    toolArgs: Record<string, unknown>,
+    extra: { sessionId?: string },
+    run: () => Promise<CallToolResult>
+  ): Promise<CallToolResult> {
+    const context: ToolCallContext = {};
+    const startedAt = Date.now();
+
+    let errorMessage: string | undefined;
+    try {
+      const result = await this.toolCallContext.run(context, run);
+      if (result.isError) {
+        const first = result.content[0];
+        errorMessage = first?.type === "text" ? first.text : undefined;
+      }
+      return result;
+    } catch (error) {
+      errorMessage = error instanceof Error ? error.message : String(error);
+      throw error;
+    } finally {
+      this.toolMetrics.record(
+        toolName,
+        errorMessage !== undefined,
+        Date.now() - startedAt
+      );
+      try {
+        this.auditLog.record({
+          timestamp: new Date(startedAt),
+          sessionId: extra.sessionId,
+          identity: identity.name,
+          toolName,
+          args: toolArgs,
+          daemonId: context.daemonId,
+          instanceId: context.instanceId,
+          outcome:
+            errorMessage !== undefined
+              ? "error"
+              : context.confirmationPending
+              ? "pending"
+              : context.confirmationDeclined
+              ? "declined"
+              : "success",
+          panelStatus: context.panelStatus,
+          errorMessage,
+          durationMs: Date.now() - startedAt,
+        });
+      } catch (error) {
+        console.error(`Failed to write audit log for ${toolName}:`, error);
+      }
+    }
+  }
+
+  /**
+   * 危险操作的二次确认
+   * 未携带确认令牌时返回操作预览；客户端支持elicitation时直接请求用户确认，
+   * 否则签发确认令牌，携带该令牌再次调用工具才会执行操作
+   * @param server MCP服务器
+   * @param identity 会话身份
+   * @param toolName 工具名称
+   * @param args 工具参数（不包含确认令牌）
+   * @param confirmationToken 调用时携带的确认令牌
+   * @param describe 生成操作预览
+   * @param always 为true时即使关闭了危险操作确认也要求确认
+   * @param state 预览所依据的内容，例如要修改的文件的当前内容；
+   *   确认时内容已经改变则拒绝执行，避免写入未经预览的修改
+   * @returns 需要等待确认时返回工具结果，可以执行操作时返回undefined
+   */
+  private async requireConfirmation(
+    server: McpServer,
+    identity: SessionIdentity,
+    toolName: string,
+    args: Record<string, unknown>,
+    confirmationToken: string | undefined,
+    describe: () => Promise<string>,
+    always: boolean = false,
+    state?: string
+  ) {
+    if (!always && !this.config.confirmDestructive) {
+      return undefined;
+    }
+
+    if (confirmationToken) {
+      const result = this.confirmations.consume(
+        confirmationToken,
+        toolName,
+        args,
+        identity.name,
+        state
+      );
+      if (result === "valid") {
+        return undefined;
+      }
+      if (result === "changed") {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Conflict: the target of ${toolName} changed after the preview was generated, so the previewed changes no longer match and nothing was written. Call ${toolName} again without confirmationToken to get a new preview.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `Invalid or expired confirmation token for ${toolName}. Call ${toolName} again without confirmationToken to get a new preview.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const preview = await describe();
+    const context = this.toolCallContext.getStore();
+
+    // 客户端支持elicitation时直接请求用户确认
+    if (server.server.getClientCapabilities()?.elicitation) {
+      try {
+        const result = await server.server.elicitInput({
+          message: `${preview}\n\nConfirm ${toolName}?`,
+          requestedSchema: {
+            type: "object",
+            properties: {
+              confirm: {
+                type: "boolean",
+                title: "Confirm",
+                description: `Execute ${toolName}`,
+              },
+            },
+            required: ["confirm"],
+          },
+        });
+        if (result.action === "accept" && result.content?.confirm === true) {
+          return undefined;
+        }
+        if (context) {
+          context.confirmationDeclined = true;
+        }
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `${toolName} was not confirmed by the user, no changes were made.`,
+            },
+          ],
+        };
+      } catch (error) {
+        // elicitation失败时退回到确认令牌
+        console.error(`Elicitation for ${toolName} failed:`, error);
+      }
+    }
+
+    if (context) {
+      context.confirmationPending = true;
+    }
+    const { token, expiresAt } = this.confirmations.issue(
+      toolName,
+      args,
+      identity.name,
+      state
+    );
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: [
+            preview,
+            "",
+            "No changes were made yet.",
+            `To proceed, call ${toolName} again with the same arguments and confirmationToken "${token}".`,
+            `The token expires at ${expiresAt.toISOString()}.`,
+          ].join("\n"),
+        },
+      ],
+    };
+  }
+
+  /**
+   * 生成实例操作的预览
+   * @param panel 面板名称
+   * @param action 操作名称
+   * @param daemonId 守护进程ID
+   * @param instanceId 实例ID
+   */
+  private async describeInstanceAction(
+    panel: string | undefined,
+    action: string,
+    daemonId: string,
+    instanceId: string
+  ) {
+    const instance = await this.getApi(panel).getInstanceDetail(
+      instanceId,
+      daemonId,
+      { fresh: true }
+    );
+    return [
+      `Preview: ${action} instance`,
+      `Panel: ${this.resolvePanel(panel)}`,
+      `Instance: ${instance.config.nickname} (${instanceId})`,
+      `Daemon: ${daemonId}`,
+      `Current status: ${this.getStatusText(instance.status)}`,
+    ].join("\n");
+  }
+
+  /**
+   * 生成文件更新的预览，包含与当前内容的差异
+   * @param panel 面板名称
+   * @param daemonId 守护进程ID
+   * @param instanceId 实例ID
+   * @param filePath 文件路径
+   * @param content 新的文件内容
+   */
+  private async describeFileUpdate(
+    panel: string | undefined,
+    daemonId: string,
+    instanceId: string,
+    filePath: string,
+    content: string
+  ) {
+    let current = "";
+    let exists = true;
+    try {
+      current = await this.getApi(panel).getFileContent(
+        instanceId,
+        daemonId,
+        filePath
+      );
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) {
+        throw error;
+      }
+      exists = false;
+    }
+
+    const diff = createUnifiedDiff(current, content, filePath);
+    return [
+      `Preview: update file ${filePath}`,
+      `Panel: ${this.resolvePanel(panel)}`,
+      `Instance: ${instanceId}`,
+      `Daemon: ${daemonId}`,
+      exists ? "" : "The file does not exist, it will be created.",
+      diff
+        ? `Diff:\n${diff}`
+        : "The new content is identical to the current content.",
+    ]
+      .filter((line) => line !== "")
+      .join("\n");
+  }
+
+  /**
+   * 写入文本文件，写入前将文件的当前内容保存为一个版本
+   * 文件不存在时直接写入；保存版本失败时不会写入文件
+   * @param panel 面板名称
+   * @param identity 会话身份
+   * @param toolName 触发写入的工具名称
+   * @param daemonId 守护进程ID
+   * @param instanceId 实例ID
+   * @param path 规范化后的文件路径
+   * @param content 新的文件内容
+   * @param current 调用方已读取的当前内容，未提供时从面板读取
+   * @returns 保存的版本ID，未保存版本时返回undefined
+   */
+  private async writeFileWithVersion(
+    panel: string | undefined,
+    identity: SessionIdentity,
+    toolName: string,
+    daemonId: string,
+    instanceId: string,
+    path: string,
+    content: string,
+    current?: string
+  ) {
+    const api = this.getApi(panel);
+    let versionId: number | undefined;
+    if (this.fileVersions.enabled) {
+      if (current === undefined) {
+        try {
+          current = await api.getFileContent(instanceId, daemonId, path);
+        } catch (error) {
+          if (!(error instanceof NotFoundError)) {
+            throw error;
+          }
+        }
+      }
+      if (current !== undefined) {
+        versionId = this.fileVersions.save(
+          { panel: this.resolvePanel(panel), daemonId, instanceId, path },
+          current,
+          { identity: identity.name, toolName }
+        );
+      }
+    }
+
+    await api.updateFileContent(instanceId, daemonId, path, content);
+    return versionId;
+  }
+
+  /**
+   * 将即将被覆盖的文本文件的当前内容保存为一个版本
+   * 用于上传、移动和复制等不经过writeFileWithVersion的写入；目标不存在、是目录、
+   * 超过SNAPSHOT_MAX_BYTES或是二进制文件时不保存
+   * @param panel 面板名称
+   * @param identity 会话身份
+   * @param toolName 触发写入的工具名称
+   * @param daemonId 守护进程ID
+   * @param instanceId 实例ID
+   * @param path 规范化后的文件路径
+   * @returns 保存的版本ID，未保存版本时返回undefined
+   */
+  private async snapshotFile(
+    panel: string | undefined,
+    identity: SessionIdentity,
+    toolName: string,
+    daemonId: string,
+    instanceId: string,
+    path: string
+  ) {
+    if (!this.fileVersions.enabled) {
+      return undefined;
+    }
+    const file = await this.findFile(panel, daemonId, instanceId, path);
+    if (!file || file.type === 0 || (file.size ?? 0) > SNAPSHOT_MAX_BYTES) {
+      return undefined;
+    }
+
+    let content: string;
+    try {
+      content = await this.getApi(panel).getFileContent(
+        instanceId,
+        daemonId,
+        path
+      );
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return undefined;
+      }
+      throw error;
+    }
+    if (isBinaryContent(content)) {
+      return undefined;
+    }
+    return this.fileVersions.save(
+      { panel: this.resolvePanel(panel), daemonId, instanceId, path },
+      content,
+      { identity: identity.name, toolName }
+    );
+  }
+
+  /**
+   * 获取文件某个历史版本的内容
+   * @param file 文件
+   * @param versionId 版本ID
+   * @throws 版本不存在或不属于该文件时抛出错误
+   */
+  private getFileVersion(file: FileVersionTarget, versionId: number) {
+    const content = this.fileVersions.get(file, versionId);
+    if (content === undefined) {
+      throw new Error(
+        `Version ${versionId} of ${file.path} not found, use list-file-versions to see the available versions`
+      );
+    }
+    return content;
+  }
+
+  /**
+   * 格式化写入文件前保存的版本，附加在工具结果中
+   * @param versionId 版本ID
+   */
+  private formatSavedVersion(versionId: number | undefined) {
+    return versionId === undefined
+      ? ""
+      : ` (previous content saved as version ${versionId}, use restore-file-version to undo)`;
+  }
+
+  /**
+   * 按用户ID查找面板用户
+   * @param panel 面板名称
+   * @param userId 用户ID
+   * @throws 用户不存在时抛出错误
+   */
+  private async findUser(panel: string | undefined, userId: string) {
+    const api = this.getApi(panel);
+    const pageSize = 100;
+    let page = 1;
+    let maxPage = 1;
+    do {
+      const users = await api.getUsers(page, pageSize);
+      const user = users.data.find((item) => item.uuid === userId);
+      if (user) {
+        return user;
+      }
+      maxPage = users.maxPage ?? 1;
+      page++;
+    } while (page <= maxPage);
+    throw new Error(
+      `User ${userId} not found, use list-users to see the panel users`
+    );
+  }
+
+  /**
+   * 读取目录中的所有文件，自动翻页
+   * @param panel 面板名称
+   * @param daemonId 守护进程ID
+   * @param instanceId 实例ID
+   * @param directory 目录路径
+   */
+  private async listDirectory(
+    panel: string | undefined,
+    daemonId: string,
+    instanceId: string,
+    directory: string
+  ) {
+    const api = this.getApi(panel);
+    const pageSize = 100;
+    const items: FileList["items"] = [];
+    let page = 0;
+    let total = 0;
+    do {
+      const fileList = await api.getFileList(
+        instanceId,
+        daemonId,
+        directory,
+        page,
+        pageSize
+      );
+      items.push(...fileList.items);
+      total = fileList.total ?? 0;
+      page++;
+    } while (page * pageSize < total);
+    return items;
+  }
+
+  /**
+   * 查找文件
+   * @param panel 面板名称
+   * @param daemonId 守护进程ID
+   * @param instanceId 实例ID
+   * @param path 规范化后的文件路径
+   * @returns 文件不存在时返回undefined
+   */
+  private async findFile(
+    panel: string | undefined,
+    daemonId: string,
+    instanceId: string,
+    path: string
+  ) {
+    const api = this.getApi(panel);
+    const { directory, name } = splitPath(path);
+    const pageSize = 100;
+    let page = 0;
+    let total = 0;
+    try {
+      do {
+        const fileList = await api.getFileList(
+          instanceId,
+          daemonId,
+          directory,
+          page,
+          pageSize,
+          { fresh: true }
+        );
+        const file = fileList.items.find((item) => item.name === name);
+        if (file) {
+          return file;
+        }
+        total = fileList.total ?? 0;
+        page++;
+      } while (page * pageSize < total);
+    } catch (error) {
+      // 所在目录不存在时文件也不存在
+      if (!(error instanceof NotFoundError)) {
+        throw error;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 生成删除文件的预览
+   * @param panel 面板名称
+   * @param daemonId 守护进程ID
+   * @param instanceId 实例ID
+   * @param paths 规范化后的文件路径
+   */
+  private async describeFileDeletion(
+    panel: string | undefined,
+    daemonId: string,
+    instanceId: string,
+    paths: string[]
+  ) {
+    const lines = [
+      `Preview: delete ${paths.length} file(s)`,
+      `Panel: ${this.resolvePanel(panel)}`,
+      `Instance: ${instanceId}`,
+      `Daemon: ${daemonId}`,
+    ];
+    for (const path of paths) {
+      const file = await this.findFile(panel, daemonId, instanceId, path);
+      lines.push(
+        !file
+          ? `- ${path} (does not exist)`
+          : file.type === 0
+          ? `- ${path} (directory, all contents will be deleted)`
+          : `- ${path} (${file.size ?? 0} bytes)`
+      );
+    }
+    return lines.join("\n");
+  }
+
+  /**
+   * 生成移动或复制文件的预览
+   * @param panel 面板名称
+   * @param daemonId 守护进程ID
+   * @param instanceId 实例ID
+   * @param action 移动或复制
+   * @param source 规范化后的源路径
+   * @param destination 规范化后的目标路径
+   */
+  private async describeFileTransfer(
+    panel: string | undefined,
+    daemonId: string,
+    instanceId: string,
+    action: "move" | "copy",
+    source: string,
+    destination: string
+  ) {
+    const file = await this.findFile(panel, daemonId, instanceId, source);
+    const existing = await this.findFile(
+      panel,
+      daemonId,
+      instanceId,
+      destination
+    );
+    return [
+      `Preview: ${action} ${source} to ${destination}`,
+      `Panel: ${this.resolvePanel(panel)}`,
+      `Instance: ${instanceId}`,
+      `Daemon: ${daemonId}`,
+      !file
+        ? `${source} does not exist, the ${action} will fail.`
+        : file.type === 0
+        ? `${source} is a directory, all of its contents will be ${
+            action === "move" ? "moved" : "copied"
+          }.`
+        : `${source} is a file (${file.size ?? 0} bytes).`,
+      existing
+        ? existing.type === 0
+          ? `${destination} is an existing directory.`
+          : `The existing file ${destination} (${
+              existing.size ?? 0
+            } bytes) will be overwritten.`
+        : `${destination} does not exist, it will be created.`,
+    ].join("\n");
+  }
+
+  /**
+   * 生成压缩文件的预览
+   * @param panel 面板名称
+   * @param daemonId 守护进程ID
+   * @param instanceId 实例ID
+   * @param paths 规范化后的要压缩的路径
+   * @param archive 规范化后的zip文件路径
+   */
+  private async describeArchiveCreation(
+    panel: string | undefined,
+    daemonId: string,
+    instanceId: string,
+    paths: string[],
+    archive: string
+  ) {
+    const existing = await this.findFile(panel, daemonId, instanceId, archive);
+    return [
+      `Preview: compress ${paths.join(", ")} into ${archive}`,
+      `Panel: ${this.resolvePanel(panel)}`,
+      `Instance: ${instanceId}`,
+      `Daemon: ${daemonId}`,
+      existing
+        ? existing.type === 0
+          ? `A directory named ${archive} already exists, the compression will fail.`
+          : `The existing archive ${archive} (${
+              existing.size ?? 0
+            } bytes) will be overwritten.`
+        : `${archive} does not exist, it will be created.`,
+    ].join("\n");
+  }
+
+  /**
+   * 生成解压文件的预览
+   * @param panel 面板名称
+   * @param daemonId 守护进程ID
+   * @param instanceId 实例ID
+   * @param archive 规范化后的zip文件路径
+   * @param destination 规范化后的解压目录
+   */
+  private async describeArchiveExtraction(
+    panel: string | undefined,
+    daemonId: string,
+    instanceId: string,
+    archive: string,
+    destination: string
+  ) {
+    const file = await this.findFile(panel, daemonId, instanceId, archive);
+    return [
+      `Preview: extract ${archive} into ${destination}`,
+      `Panel: ${this.resolvePanel(panel)}`,
+      `Instance: ${instanceId}`,
+      `Daemon: ${daemonId}`,
+      file
+        ? `Archive size: ${file.size ?? 0} bytes`
+        : `${archive} does not exist, the extraction will fail.`,
+      "Files in the archive overwrite existing files with the same name.",
+    ].join("\n");
+  }
+
+  /**
+   * 生成上传文件的预览
+   * @param panel 面板名称
+   * @param daemonId 守护进程ID
+   * @param instanceId 实例ID
+   * @param path 规范化后的文件路径
+   * @param size 上传的字节数
+   */
+  private async describeFileUpload(
+    panel: string | undefined,
+    daemonId: string,
+    instanceId: string,
+    path: string,
+    size: number
+  ) {
+    const existing = await this.findFile(panel, daemonId, instanceId, path);
+    return [
+      `Preview: upload file ${path} (${size} bytes)`,
+      `Panel: ${this.resolvePanel(panel)}`,
+      `Instance: ${instanceId}`,
+      `Daemon: ${daemonId}`,
+      existing
+        ? existing.type === 0
+          ? "A directory with this name already exists, the upload will fail."
+          : `The existing file (${
+              existing.size ?? 0
+            } bytes) will be overwritten.`
+        : "The file does not exist, it will be created.",
+    ].join("\n");
+  }
+
+  /**
+   * 检查工具参数中的守护进程和实例是否允许访问
+   * @param args 工具参数
+   * @returns 访问被禁止时返回错误结果
+   */
+  private checkTargetAccess(args: unknown) {
+    const { daemonId, instanceId } = (args ?? {}) as {
+      daemonId?: unknown;
+      instanceId?: unknown;
+    };
+    if (typeof daemonId !== "string") {
+      return undefined;
+    }
+
+    const policy = this.config.accessPolicy;
+    let message: string | undefined;
+    if (!isDaemonAllowed(policy, daemonId)) {
+      message = `Access to daemon ${daemonId} is denied by the server policy`;
+    } else if (
+      typeof instanceId === "string" &&
+      !isInstanceAllowed(policy, daemonId, instanceId)
+    ) {
+      message = `Access to instance ${instanceId} is denied by the server policy`;
+    }
+
+    if (!message) {
+      return undefined;
+    }
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: message,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  /**
+   * 获取实例状态文本
+   * @param status 状态码
+   * @returns 状态文本
+   */
+  private getStatusText(status: number): string {
+    switch (status) {
+      case -1:
+        return "busy";
+      case 0:
+        return "stopped";
+      case 1:
+        return "stopping";
+      case 2:
+        return "starting";
+      case 3:
+        return "running";
+      default:
+        return "unknown";
+    }
+  }
+
+  /**
+   * 启动服务器
+   * 根据配置的传输方式选择stdio或Streamable HTTP
+   */
+  async start() {
+    if (this.config.metricsEnabled) {
+      this.metricsSampler.start();
+    }
+
+    if (this.config.transport === "stdio") {
+      return this.startStdio();
+    }
+    return this.startHttp();
+  }
+
+  /**
+   * 以stdio传输方式启动服务器
+   * stdio由本地父进程启动，不进行令牌认证，使用配置的权限范围
+   */
+  private async startStdio() {
+    const server = this.createMcpServer({
+      name: "stdio",
+      scope: this.config.stdioScope,
+    });
+    const transport = new StdioServerTransport();
+    await server.connect(transport);
+    console.error("MCSManager MCP Server is running on stdio");
+  }
+
+  /**
+   * 认证HTTP请求
+   * 认证失败时直接发送401响应
+   * @param req 请求
+   * @param res 响应
+   * @returns 认证成功时返回会话身份
+   */
+  private authenticateRequest(
+    req: express.Request,
+    res: express.Response
+  ): SessionIdentity | undefined {
+    const authToken = authenticate(
+      this.config.authTokens,
+      extractBearerToken(req.headers.authorization)
+    );
+
+    if (!authToken) {
+      res
+        .status(401)
+        .set("WWW-Authenticate", 'Bearer realm="mcsmanager-mcp"')
+        .json({
+          jsonrpc: "2.0",
+          error: {
+            code: -32001,
+            message: "Unauthorized: A valid bearer token is required",
+          },
+          id: null,
+        });
+      return undefined;
+    }
+
+    // 将认证信息传递给MCP请求处理程序
+    req.auth = {
+      token: authToken.token,
+      clientId: authToken.name,
+      scopes: [authToken.scope],
+    };
+
+    return { name: authToken.name, scope: authToken.scope };
+  }
+
+  /**
+   * 获取请求对应的会话
+   * 会话只能由创建它的令牌访问，否则发送403响应
+   * @param req 请求
+   * @param res 响应
+   * @param identity 请求的身份
+   */
+  private getSession(
+    req: express.Request,
+    res: express.Response,
+    identity: SessionIdentity
+  ): McpSession | undefined {
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    const session = sessionId ? this.sessions[sessionId] : undefined;
+    if (session && session.identity.name !== identity.name) {
+      res.status(403).json({
+        jsonrpc: "2.0",
+        error: {
+          code: -32001,
+          message: "Forbidden: Session belongs to a different token",
+        },
+        id: null,
+      });
+      return undefined;
+    }
+    return session;
+  }
+
+  /**
+   * 以Streamable HTTP传输方式启动服务器
+   */
+  private async startHttp() {
+    if (this.config.authTokens.length === 0) {
+      throw new Error(
+        "At least one auth token must be configured in MCP_AUTH_TOKENS for the HTTP transport"
+      );
+    }
+
+    // 处理POST请求
+    this.app.post("/mcp", async (req, res) => {
+      const identity = this.authenticateRequest(req, res);
+      if (!identity) {
+        return;
+      }
+
+      // 检查会话ID
+      const sessionId = req.headers["mcp-session-id"] as string | undefined;
+      let transport: StreamableHTTPServerTransport;
+
+      if (sessionId && this.sessions[sessionId]) {
+        // 重用现有传输
+        const session = this.getSession(req, res, identity);
+        if (!session) {
+          return;
+        }
+        transport = session.transport;
+      } else if (!sessionId && req.body && req.body.method === "initialize") {
+        // 新的初始化请求，按令牌权限范围创建服务器
+        const server = this.createMcpServer(identity);
+        transport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (sessionId) => {
+            // 存储会话
+            this.sessions[sessionId] = { transport, server, identity };
+          },
+        });
+
+        // 传输关闭时清理会话和资源订阅
+        transport.onclose = () => {
+          this.subscriptions.unsubscribeAll(server);
+          if (transport.sessionId) {
+            delete this.sessions[transport.sessionId];
+          }
+        };
+
+        // 连接到MCP服务器
+        await server.connect(transport);
+      } else {
+        // 无效请求
+        res.status(400).json({
+          jsonrpc: "2.0",
+          error: {
+            code: -32000,
+            message: "Bad Request: No valid session ID provided",
+          },
+          id: null,
         });
         return;
       }
@@ -818,14 +5909,22 @@ export class MCSManagerMCPServer {
       req: express.Request,
       res: express.Response
     ) => {
+      const identity = this.authenticateRequest(req, res);
+      if (!identity) {
+        return;
+      }
+
       const sessionId = req.headers["mcp-session-id"] as string | undefined;
-      if (!sessionId || !this.transports[sessionId]) {
+      if (!sessionId || !this.sessions[sessionId]) {
         res.status(400).send("Invalid or missing session ID");
         return;
       }
 
-      const transport = this.transports[sessionId];
-      await transport.handleRequest(req, res);
+      const session = this.getSession(req, res, identity);
+      if (!session) {
+        return;
+      }
+      await session.transport.handleRequest(req, res);
     };
 
     // 处理GET请求
@@ -834,6 +5933,22 @@ export class MCSManagerMCPServer {
     // 处理DELETE请求
     this.app.delete("/mcp", handleSessionRequest);
 
+    // Prometheus指标，与/mcp使用相同的令牌认证
+    this.app.get("/metrics", async (req, res) => {
+      if (!this.authenticateRequest(req, res)) {
+        return;
+      }
+
+      try {
+        res
+          .type("text/plain; version=0.0.4; charset=utf-8")
+          .send(await this.renderPrometheusMetrics());
+      } catch (error) {
+        console.error("Error rendering metrics:", error);
+        res.status(500).send("Failed to render metrics");
+      }
+    });
+
     // 启动服务器
     return new Promise<void>((resolve) => {
       this.app.listen(this.config.port, this.config.host, () => {
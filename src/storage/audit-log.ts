@@ -0,0 +1,286 @@
+import Database from "better-sqlite3";
+import { createHash } from "crypto";
+
+/**
+ * 工具调用结果
+ * pending表示危险操作仅返回了预览，等待确认；declined表示用户拒绝或取消了确认
+ */
+export type AuditOutcome = "success" | "error" | "pending" | "declined";
+
+/**
+ * 审计日志记录
+ */
+export interface AuditEntry {
+  /**
+   * 调用时间
+   */
+  timestamp: Date;
+
+  /**
+   * MCP会话ID，stdio传输下为undefined
+   */
+  sessionId?: string;
+
+  /**
+   * 调用者身份
+   */
+  identity: string;
+
+  /**
+   * 工具名称
+   */
+  toolName: string;
+
+  /**
+   * 工具参数
+   */
+  args: Record<string, unknown>;
+
+  /**
+   * 调用期间解析出的守护进程ID和实例ID，未提供时使用参数中的ID
+   */
+  daemonId?: string;
+  instanceId?: string;
+
+  /**
+   * 调用结果
+   */
+  outcome: AuditOutcome;
+
+  /**
+   * 面板最后一次响应的状态码
+   */
+  panelStatus?: number;
+
+  /**
+   * 错误信息
+   */
+  errorMessage?: string;
+
+  /**
+   * 调用耗时（毫秒）
+   */
+  durationMs: number;
+}
+
+/**
+ * 审计日志查询条件
+ */
+export interface AuditQuery {
+  daemonId?: string;
+  instanceId?: string;
+  toolName?: string;
+  identity?: string;
+  outcome?: AuditOutcome;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+}
+
+/**
+ * 审计日志查询结果
+ */
+export interface AuditRecord {
+  id: number;
+  timestamp: string;
+  sessionId: string | null;
+  identity: string;
+  toolName: string;
+  daemonId: string | null;
+  instanceId: string | null;
+  args: Record<string, unknown>;
+  outcome: AuditOutcome;
+  panelStatus: number | null;
+  errorMessage: string | null;
+  durationMs: number;
+}
+
+/**
+ * audit_log表中的一行
+ */
+interface AuditLogRow {
+  id: number;
+  timestamp: number;
+  session_id: string | null;
+  identity: string;
+  tool_name: string;
+  daemon_id: string | null;
+  instance_id: string | null;
+  arguments: string;
+  outcome: AuditOutcome;
+  panel_status: number | null;
+  error_message: string | null;
+  duration_ms: number;
+}
+
+/**
+ * 参数中超过该长度的字符串只记录摘要
+ */
+const MAX_ARG_LENGTH = 256;
+
+/**
+ * 参数名匹配时不记录参数值
+ */
+const SENSITIVE_ARG = /password|secret|apikey/i;
+
+/**
+ * 处理参数值，递归处理数组和对象中的每一层
+ * @param value 参数值
+ */
+function sanitizeValue(value: unknown): unknown {
+  if (typeof value === "string" && value.length > MAX_ARG_LENGTH) {
+    const hash = createHash("sha256").update(value).digest("hex");
+    return `[${value.length} chars, sha256:${hash}]`;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => sanitizeValue(item));
+  }
+  if (value !== null && typeof value === "object") {
+    return sanitizeArgs(value as Record<string, unknown>);
+  }
+  return value;
+}
+
+/**
+ * 处理工具参数，避免在审计日志中保存文件内容和敏感信息
+ * 嵌套的数组和对象（例如apply-file-patch的edits）同样会处理
+ * @param args 工具参数
+ */
+function sanitizeArgs(args: Record<string, unknown>) {
+  const sanitized: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(args)) {
+    sanitized[key] = SENSITIVE_ARG.test(key)
+      ? "[redacted]"
+      : sanitizeValue(value);
+  }
+  return sanitized;
+}
+
+/**
+ * 基于SQLite的工具调用审计日志
+ */
+export class AuditLog {
+  private db: Database.Database;
+
+  /**
+   * 创建审计日志
+   * @param db SQLite数据库
+   */
+  constructor(db: Database.Database) {
+    this.db = db;
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp INTEGER NOT NULL,
+        session_id TEXT,
+        identity TEXT NOT NULL,
+        tool_name TEXT NOT NULL,
+        daemon_id TEXT,
+        instance_id TEXT,
+        arguments TEXT NOT NULL,
+        outcome TEXT NOT NULL,
+        panel_status INTEGER,
+        error_message TEXT,
+        duration_ms INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_audit_log_timestamp ON audit_log (timestamp);
+      CREATE INDEX IF NOT EXISTS idx_audit_log_instance ON audit_log (instance_id);
+      CREATE INDEX IF NOT EXISTS idx_audit_log_tool ON audit_log (tool_name);
+    `);
+  }
+
+  /**
+   * 记录一次工具调用
+   * @param entry 审计日志记录
+   */
+  record(entry: AuditEntry) {
+    const daemonId = entry.daemonId ?? entry.args.daemonId;
+    const instanceId = entry.instanceId ?? entry.args.instanceId;
+    this.db
+      .prepare(
+        `INSERT INTO audit_log (
+          timestamp, session_id, identity, tool_name, daemon_id, instance_id,
+          arguments, outcome, panel_status, error_message, duration_ms
+        ) VALUES (
+          @timestamp, @sessionId, @identity, @toolName, @daemonId, @instanceId,
+          @arguments, @outcome, @panelStatus, @errorMessage, @durationMs
+        )`
+      )
+      .run({
+        timestamp: entry.timestamp.getTime(),
+        sessionId: entry.sessionId ?? null,
+        identity: entry.identity,
+        toolName: entry.toolName,
+        daemonId: typeof daemonId === "string" ? daemonId : null,
+        instanceId: typeof instanceId === "string" ? instanceId : null,
+        arguments: JSON.stringify(sanitizeArgs(entry.args)),
+        outcome: entry.outcome,
+        panelStatus: entry.panelStatus ?? null,
+        errorMessage: entry.errorMessage ?? null,
+        durationMs: Math.round(entry.durationMs),
+      });
+  }
+
+  /**
+   * 查询审计日志，按时间倒序返回
+   * @param query 查询条件
+   */
+  query(query: AuditQuery): AuditRecord[] {
+    const conditions: string[] = [];
+    const params: Record<string, unknown> = {
+      limit: query.limit ?? 50,
+    };
+
+    if (query.daemonId) {
+      conditions.push("daemon_id = @daemonId");
+      params.daemonId = query.daemonId;
+    }
+    if (query.instanceId) {
+      conditions.push("instance_id = @instanceId");
+      params.instanceId = query.instanceId;
+    }
+    if (query.toolName) {
+      conditions.push("tool_name = @toolName");
+      params.toolName = query.toolName;
+    }
+    if (query.identity) {
+      conditions.push("identity = @identity");
+      params.identity = query.identity;
+    }
+    if (query.outcome) {
+      conditions.push("outcome = @outcome");
+      params.outcome = query.outcome;
+    }
+    if (query.since) {
+      conditions.push("timestamp >= @since");
+      params.since = query.since.getTime();
+    }
+    if (query.until) {
+      conditions.push("timestamp <= @until");
+      params.until = query.until.getTime();
+    }
+
+    const where =
+      conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM audit_log ${where} ORDER BY timestamp DESC, id DESC LIMIT @limit`
+      )
+      .all(params) as AuditLogRow[];
+
+    return rows.map((row) => ({
+      id: row.id,
+      timestamp: new Date(row.timestamp).toISOString(),
+      sessionId: row.session_id,
+      identity: row.identity,
+      toolName: row.tool_name,
+      daemonId: row.daemon_id,
+      instanceId: row.instance_id,
+      args: JSON.parse(row.arguments),
+      outcome: row.outcome,
+      panelStatus: row.panel_status,
+      errorMessage: row.error_message,
+      durationMs: row.duration_ms,
+    }));
+  }
+}
@@ -0,0 +1,18 @@
+import Database from "better-sqlite3";
+import { mkdirSync } from "fs";
+import { dirname } from "path";
+
+/**
+ * 打开本地SQLite数据库
+ * 数据库文件所在目录不存在时会自动创建
+ * @param path 数据库文件路径，":memory:"表示内存数据库
+ */
+export function openDatabase(path: string): Database.Database {
+  if (path !== ":memory:") {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+
+  const db = new Database(path);
+  db.pragma("journal_mode = WAL");
+  return db;
+}
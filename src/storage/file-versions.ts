@@ -0,0 +1,196 @@
+import Database from "better-sqlite3";
+import { createHash } from "crypto";
+
+/**
+ * 文件在本地存储中的标识
+ */
+export interface FileVersionTarget {
+  panel: string;
+  daemonId: string;
+  instanceId: string;
+  path: string;
+}
+
+/**
+ * 保存版本时的来源信息
+ */
+export interface FileVersionSource {
+  /**
+   * 调用者身份
+   */
+  identity: string;
+
+  /**
+   * 触发写入的工具名称
+   */
+  toolName: string;
+}
+
+/**
+ * 文件版本摘要
+ */
+export interface FileVersion {
+  id: number;
+  timestamp: string;
+  identity: string;
+  toolName: string;
+
+  /**
+   * 内容的字节数（UTF-8）
+   */
+  size: number;
+  sha256: string;
+}
+
+/**
+ * 计算内容的SHA-256摘要
+ * @param content 文件内容
+ */
+function sha256(content: string) {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * 基于SQLite的文件版本存储
+ * 写入文件前保存文件的当前内容，每个文件只保留最近的若干个版本
+ */
+export class FileVersionStore {
+  private db: Database.Database;
+  private maxVersions: number;
+
+  /**
+   * 创建文件版本存储
+   * @param db SQLite数据库
+   * @param maxVersions 每个文件保留的版本数量，0表示不保存版本
+   */
+  constructor(db: Database.Database, maxVersions: number) {
+    this.db = db;
+    this.maxVersions = maxVersions;
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS file_versions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp INTEGER NOT NULL,
+        panel TEXT NOT NULL,
+        daemon_id TEXT NOT NULL,
+        instance_id TEXT NOT NULL,
+        path TEXT NOT NULL,
+        identity TEXT NOT NULL,
+        tool_name TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        sha256 TEXT NOT NULL,
+        content TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_file_versions_target
+        ON file_versions (panel, daemon_id, instance_id, path, id);
+    `);
+  }
+
+  /**
+   * 是否保存版本
+   */
+  get enabled() {
+    return this.maxVersions > 0;
+  }
+
+  /**
+   * 保存文件的一个版本，并删除超出保留数量的旧版本
+   * 内容与最近一个版本相同时不会重复保存
+   * @param target 文件
+   * @param content 文件内容
+   * @param source 来源信息
+   * @returns 版本ID，未保存时返回undefined
+   */
+  save(
+    target: FileVersionTarget,
+    content: string,
+    source: FileVersionSource
+  ): number | undefined {
+    if (!this.enabled) {
+      return undefined;
+    }
+
+    const hash = sha256(content);
+    const latest = this.list(target)[0];
+    if (latest && latest.sha256 === hash) {
+      return latest.id;
+    }
+
+    const save = this.db.transaction(() => {
+      const id = Number(
+        this.db
+          .prepare(
+            `INSERT INTO file_versions
+               (timestamp, panel, daemon_id, instance_id, path, identity, tool_name, size, sha256, content)
+             VALUES (@timestamp, @panel, @daemonId, @instanceId, @path, @identity, @toolName, @size, @sha256, @content)`
+          )
+          .run({
+            timestamp: Date.now(),
+            ...target,
+            ...source,
+            size: Buffer.byteLength(content),
+            sha256: hash,
+            content,
+          }).lastInsertRowid
+      );
+      this.db
+        .prepare(
+          `DELETE FROM file_versions
+           WHERE panel = @panel AND daemon_id = @daemonId AND instance_id = @instanceId AND path = @path
+             AND id NOT IN (
+               SELECT id FROM file_versions
+               WHERE panel = @panel AND daemon_id = @daemonId AND instance_id = @instanceId AND path = @path
+               ORDER BY id DESC LIMIT @limit
+             )`
+        )
+        .run({ ...target, limit: this.maxVersions });
+      return id;
+    });
+    return save();
+  }
+
+  /**
+   * 列出文件的所有版本，最新的在前
+   * @param target 文件
+   */
+  list(target: FileVersionTarget): FileVersion[] {
+    const rows = this.db
+      .prepare(
+        `SELECT id, timestamp, identity, tool_name, size, sha256 FROM file_versions
+         WHERE panel = @panel AND daemon_id = @daemonId AND instance_id = @instanceId AND path = @path
+         ORDER BY id DESC`
+      )
+      .all(target) as Array<{
+      id: number;
+      timestamp: number;
+      identity: string;
+      tool_name: string;
+      size: number;
+      sha256: string;
+    }>;
+
+    return rows.map((row) => ({
+      id: row.id,
+      timestamp: new Date(row.timestamp).toISOString(),
+      identity: row.identity,
+      toolName: row.tool_name,
+      size: row.size,
+      sha256: row.sha256,
+    }));
+  }
+
+  /**
+   * 获取文件某个版本的内容
+   * @param target 文件
+   * @param id 版本ID
+   * @returns 版本不存在或不属于该文件时返回undefined
+   */
+  get(target: FileVersionTarget, id: number): string | undefined {
+    const row = this.db
+      .prepare(
+        `SELECT content FROM file_versions
+         WHERE id = @id AND panel = @panel AND daemon_id = @daemonId AND instance_id = @instanceId AND path = @path`
+      )
+      .get({ ...target, id }) as { content: string } | undefined;
+    return row?.content;
+  }
+}
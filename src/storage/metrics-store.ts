@@ -0,0 +1,213 @@
+import Database from "better-sqlite3";
+
+/**
+ * 守护进程指标
+ * - cpuUsage / memUsage: 守护进程所在主机的CPU和内存使用率（0~1）
+ * - load1: 主机1分钟平均负载
+ * - instancesRunning / instancesTotal: 运行中和全部实例数量
+ */
+export const DAEMON_METRICS = [
+  "cpuUsage",
+  "memUsage",
+  "load1",
+  "instancesRunning",
+  "instancesTotal",
+] as const;
+
+/**
+ * 实例指标
+ * - cpu: 实例进程的CPU使用率（百分比）
+ * - memory: 实例进程的内存占用（字节）
+ * - running: 实例是否运行中（1或0）
+ */
+export const INSTANCE_METRICS = ["cpu", "memory", "running"] as const;
+
+/**
+ * 一个指标采样
+ */
+export interface MetricSample {
+  panel: string;
+  daemonId: string;
+
+  /**
+   * 实例ID，守护进程指标为undefined
+   */
+  instanceId?: string;
+  metric: string;
+  value: number;
+}
+
+/**
+ * 指标查询条件
+ */
+export interface MetricsQuery {
+  panel: string;
+  daemonId: string;
+
+  /**
+   * 实例ID，未指定时查询守护进程指标
+   */
+  instanceId?: string;
+  metric: string;
+  since: Date;
+  until: Date;
+
+  /**
+   * 时间序列的分桶大小（秒），未指定时不返回时间序列
+   */
+  bucketSeconds?: number;
+}
+
+/**
+ * 时间序列中的一个分桶
+ */
+export interface MetricBucket {
+  timestamp: string;
+  avg: number;
+  max: number;
+}
+
+/**
+ * 指标在时间窗口内的统计结果
+ */
+export interface MetricStats {
+  count: number;
+  min: number | null;
+  avg: number | null;
+  max: number | null;
+  p50: number | null;
+  p90: number | null;
+  p95: number | null;
+  p99: number | null;
+  series?: MetricBucket[];
+}
+
+/**
+ * 计算已排序数值的百分位数（最近秩法）
+ * @param sorted 升序排列的数值
+ * @param percentile 百分位（0~100）
+ */
+function percentileOf(sorted: number[], percentile: number) {
+  const rank = Math.ceil((percentile / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(rank, 1)) - 1];
+}
+
+/**
+ * 基于SQLite的指标存储
+ */
+export class MetricsStore {
+  private db: Database.Database;
+
+  /**
+   * 创建指标存储
+   * @param db SQLite数据库
+   */
+  constructor(db: Database.Database) {
+    this.db = db;
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS metric_samples (
+        timestamp INTEGER NOT NULL,
+        panel TEXT NOT NULL,
+        daemon_id TEXT NOT NULL,
+        instance_id TEXT NOT NULL DEFAULT '',
+        metric TEXT NOT NULL,
+        value REAL NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_metric_samples_target
+        ON metric_samples (panel, daemon_id, instance_id, metric, timestamp);
+      CREATE INDEX IF NOT EXISTS idx_metric_samples_timestamp
+        ON metric_samples (timestamp);
+    `);
+  }
+
+  /**
+   * 记录同一时刻的一批采样
+   * @param timestamp 采样时间
+   * @param samples 采样
+   */
+  record(timestamp: Date, samples: MetricSample[]) {
+    const insert = this.db.prepare(
+      `INSERT INTO metric_samples (timestamp, panel, daemon_id, instance_id, metric, value)
+       VALUES (@timestamp, @panel, @daemonId, @instanceId, @metric, @value)`
+    );
+    const insertAll = this.db.transaction((rows: MetricSample[]) => {
+      for (const sample of rows) {
+        insert.run({
+          timestamp: timestamp.getTime(),
+          panel: sample.panel,
+          daemonId: sample.daemonId,
+          instanceId: sample.instanceId ?? "",
+          metric: sample.metric,
+          value: sample.value,
+        });
+      }
+    });
+    insertAll(samples);
+  }
+
+  /**
+   * 删除早于指定时间的采样
+   * @param before 截止时间
+   * @returns 删除的采样数量
+   */
+  purge(before: Date): number {
+    return this.db
+      .prepare("DELETE FROM metric_samples WHERE timestamp < ?")
+      .run(before.getTime()).changes;
+  }
+
+  /**
+   * 查询指标在时间窗口内的统计结果
+   * @param query 查询条件
+   */
+  query(query: MetricsQuery): MetricStats {
+    const rows = this.db
+      .prepare(
+        `SELECT timestamp, value FROM metric_samples
+         WHERE panel = @panel AND daemon_id = @daemonId AND instance_id = @instanceId
+           AND metric = @metric AND timestamp >= @since AND timestamp <= @until
+         ORDER BY timestamp`
+      )
+      .all({
+        panel: query.panel,
+        daemonId: query.daemonId,
+        instanceId: query.instanceId ?? "",
+        metric: query.metric,
+        since: query.since.getTime(),
+        until: query.until.getTime(),
+      }) as Array<{ timestamp: number; value: number }>;
+
+    const sorted = rows.map((row) => row.value).sort((a, b) => a - b);
+    const stats: MetricStats = {
+      count: sorted.length,
+      min: sorted.length > 0 ? sorted[0] : null,
+      avg:
+        sorted.length > 0
+          ? sorted.reduce((sum, value) => sum + value, 0) / sorted.length
+          : null,
+      max: sorted.length > 0 ? sorted[sorted.length - 1] : null,
+      p50: sorted.length > 0 ? percentileOf(sorted, 50) : null,
+      p90: sorted.length > 0 ? percentileOf(sorted, 90) : null,
+      p95: sorted.length > 0 ? percentileOf(sorted, 95) : null,
+      p99: sorted.length > 0 ? percentileOf(sorted, 99) : null,
+    };
+
+    if (query.bucketSeconds) {
+      const bucketMs = query.bucketSeconds * 1000;
+      const buckets = new Map<number, number[]>();
+      for (const row of rows) {
+        const start = Math.floor(row.timestamp / bucketMs) * bucketMs;
+        const values = buckets.get(start) ?? [];
+        values.push(row.value);
+        buckets.set(start, values);
+      }
+      stats.series = [...buckets].map(([start, values]) => ({
+        timestamp: new Date(start).toISOString(),
+        avg: values.reduce((sum, value) => sum + value, 0) / values.length,
+        max: Math.max(...values),
+      }));
+    }
+
+    return stats;
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * 资源状态获取函数
+ * 返回资源状态的摘要，摘要变化时通知订阅者
+ */
+export type ResourceStateFetcher = (uri: string) => Promise<string>;
+
+/**
+ * 单个资源的轮询器
+ */
+interface ResourcePoller {
+  /**
+   * 订阅者及其通知回调
+   */
+  subscribers: Map<object, () => void>;
+
+  /**
+   * 上一次轮询得到的状态摘要
+   */
+  state: string;
+
+  /**
+   * 下一次轮询的定时器
+   */
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * 资源订阅管理
+ * 每个资源只有一个共享的轮询器，无论有多少会话订阅；
+ * 资源状态变化时通知所有订阅者，最后一个订阅者退订后停止轮询
+ */
+export class ResourceSubscriptions {
+  private pollers = new Map<string, ResourcePoller>();
+  private fetchState: ResourceStateFetcher;
+  private intervalMs: number;
+
+  /**
+   * 创建资源订阅管理
+   * @param fetchState 资源状态获取函数
+   * @param intervalSeconds 轮询间隔（秒）
+   */
+  constructor(fetchState: ResourceStateFetcher, intervalSeconds: number) {
+    this.fetchState = fetchState;
+    this.intervalMs = intervalSeconds * 1000;
+  }
+
+  /**
+   * 订阅资源
+   * 资源尚无轮询器时会先获取一次状态作为基准，获取失败时抛出错误
+   * @param uri 资源URI
+   * @param subscriber 订阅者，通常为会话的MCP服务器
+   * @param notify 资源状态变化时的通知回调
+   */
+  async subscribe(uri: string, subscriber: object, notify: () => void) {
+    let poller = this.pollers.get(uri);
+    if (!poller) {
+      const state = await this.fetchState(uri);
+      // 等待期间其他订阅者可能已经创建了轮询器
+      poller = this.pollers.get(uri);
+      if (!poller) {
+        poller = { subscribers: new Map(), state };
+        this.pollers.set(uri, poller);
+        this.schedule(uri, poller);
+      }
+    }
+    poller.subscribers.set(subscriber, notify);
+  }
+
+  /**
+   * 退订资源
+   * @param uri 资源URI
+   * @param subscriber 订阅者
+   */
+  unsubscribe(uri: string, subscriber: object) {
+    const poller = this.pollers.get(uri);
+    if (!poller) {
+      return;
+    }
+    poller.subscribers.delete(subscriber);
+    if (poller.subscribers.size === 0) {
+      clearTimeout(poller.timer);
+      this.pollers.delete(uri);
+    }
+  }
+
+  /**
+   * 退订订阅者的所有资源，会话关闭时调用
+   * @param subscriber 订阅者
+   */
+  unsubscribeAll(subscriber: object) {
+    for (const uri of [...this.pollers.keys()]) {
+      this.unsubscribe(uri, subscriber);
+    }
+  }
+
+  /**
+   * 安排下一次轮询
+   * 上一次轮询完成后才开始计时，避免面板响应慢时轮询堆积
+   * @param uri 资源URI
+   * @param poller 轮询器
+   */
+  private schedule(uri: string, poller: ResourcePoller) {
+    poller.timer = setTimeout(async () => {
+      let state: string;
+      try {
+        state = await this.fetchState(uri);
+      } catch (error) {
+        state = `error: ${
+          error instanceof Error ? error.message : String(error)
+        }`;
+      }
+
+      // 轮询期间所有订阅者都已退订
+      if (this.pollers.get(uri) !== poller) {
+        return;
+      }
+
+      if (state !== poller.state) {
+        poller.state = state;
+        for (const notify of poller.subscribers.values()) {
+          try {
+            notify();
+          } catch (error) {
+            console.error(`Error notifying subscriber of ${uri}:`, error);
+          }
+        }
+      }
+      this.schedule(uri, poller);
+    }, this.intervalMs);
+    // 轮询不应阻止进程退出
+    poller.timer.unref();
+  }
+}
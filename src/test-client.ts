@@ -12,9 +12,16 @@ async function main() {
       version: "1.0.0",
     });
 
-    // 连接到服务器
+    // 连接到服务器，使用MCP_AUTH_TOKEN环境变量中的Bearer令牌认证
     const transport = new StreamableHTTPClientTransport(
-      new URL("http://localhost:3000/mcp")
+      new URL("http://localhost:3000/mcp"),
+      {
+        requestInit: {
+          headers: {
+            Authorization: `Bearer ${process.env.MCP_AUTH_TOKEN || ""}`,
+          },
+        },
+      }
     );
     await client.connect(transport);
     console.log("Connected to MCP server");
@@ -24,13 +31,21 @@ async function main() {
     const resources = await client.listResources();
     console.log(
       "Available resources:",
-      resources.resources.map((r) => r.uriTemplate)
+      resources.resources.map((r) => r.uri)
+    );
+    const templates = await client.listResourceTemplates();
+    console.log(
+      "Available resource templates:",
+      templates.resourceTemplates.map((t) => t.uriTemplate)
     );
 
     // 获取概览信息
     console.log("\n=== Overview ===");
     const overview = await client.readResource({ uri: "mcsm://overview" });
-    console.log("Overview:", JSON.parse(overview.contents[0].text as string));
+    const content = overview.contents[0];
+    if ("text" in content) {
+      console.log("Overview:", JSON.parse(content.text));
+    }
 
     // 列出工具
     console.log("\n=== Tools ===");
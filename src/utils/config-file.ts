@@ -0,0 +1,642 @@
+import { Document, isNode, isScalar, parseDocument, Scalar } from "yaml";
+
+/**
+ * 支持按键编辑的配置文件格式
+ */
+export type ConfigFormat = "properties" | "yaml" | "json";
+
+/**
+ * 配置项的值
+ * properties文件的值总是字符串，写入时其他类型会转换为字符串
+ */
+export type ConfigValue = unknown;
+
+/**
+ * 根据文件扩展名判断配置文件格式
+ * @param path 文件路径
+ */
+export function detectConfigFormat(path: string): ConfigFormat {
+  const extension = path.slice(path.lastIndexOf(".") + 1).toLowerCase();
+  switch (extension) {
+    case "properties":
+      return "properties";
+    case "yml":
+    case "yaml":
+      return "yaml";
+    case "json":
+      return "json";
+    default:
+      throw new Error(
+        `Unsupported config file ${path}, expected a .properties, .yml, .yaml or .json file`
+      );
+  }
+}
+
+/**
+ * 读取配置项
+ * YAML和JSON的键为以.分隔的路径，例如settings.debug，数字路径段表示数组下标
+ * @param text 文件内容
+ * @param format 文件格式
+ * @param keys 配置项的键
+ * @returns 键到值的映射，不存在的键不会出现在结果中
+ */
+export function getConfigValues(
+  text: string,
+  format: ConfigFormat,
+  keys: string[]
+): Record<string, ConfigValue> {
+  const values: Record<string, ConfigValue> = {};
+  if (format === "properties") {
+    const entries = parseProperties(text);
+    for (const key of keys) {
+      const entry = entries.find((entry) => entry.key === key);
+      if (entry) {
+        values[key] = entry.value;
+      }
+    }
+    return values;
+  }
+
+  if (format === "yaml") {
+    const doc = parseYaml(text);
+    for (const key of keys) {
+      const path = splitKey(key);
+      if (doc.hasIn(path)) {
+        const node = doc.getIn(path, true);
+        values[key] = isNode(node) ? node.toJSON() : node;
+      }
+    }
+    return values;
+  }
+
+  const data = parseJson(text);
+  for (const key of keys) {
+    const result = getJsonPath(data, splitKey(key));
+    if (result.found) {
+      values[key] = result.value;
+    }
+  }
+  return values;
+}
+
+/**
+ * 修改配置项，保留注释、键的顺序和未修改的内容
+ * 不存在的键会被添加：properties添加到文件末尾，YAML和JSON添加到对应的对象中
+ * @param text 文件内容
+ * @param format 文件格式
+ * @param values 键到新值的映射
+ * @returns 修改后的文件内容
+ */
+export function setConfigValues(
+  text: string,
+  format: ConfigFormat,
+  values: Record<string, ConfigValue>
+): string {
+  let result = text;
+  for (const [key, value] of Object.entries(values)) {
+    result =
+      format === "properties"
+        ? setPropertiesValue(result, key, value)
+        : format === "yaml"
+        ? setYamlValue(result, key, value)
+        : setJsonValue(result, key, value);
+  }
+  return result;
+}
+
+/**
+ * 将键拆分为路径
+ * @param key 以.分隔的键
+ */
+function splitKey(key: string): Array<string | number> {
+  if (key === "") {
+    throw new Error("Config key must not be empty");
+  }
+  const path = key.split(".");
+  if (path.some((segment) => UNSAFE_SEGMENTS.has(segment))) {
+    throw new Error(`Invalid config key ${key}`);
+  }
+  return path.map((segment) =>
+    /^\d+$/.test(segment) ? Number(segment) : segment
+  );
+}
+
+/**
+ * 修改后会影响对象原型的路径段
+ */
+const UNSAFE_SEGMENTS = new Set(["__proto__", "prototype", "constructor"]);
+
+/**
+ * 将字符串形式的新值转换为原值的类型
+ * 调用方经常以字符串传递数字和布尔值，例如"20"和"true"，转换后不会把数字改写成带引号的字符串
+ * @param current 原值
+ * @param value 新值
+ */
+function coerceValue(current: unknown, value: ConfigValue): ConfigValue {
+  if (typeof value !== "string") {
+    return value;
+  }
+  if (
+    typeof current === "number" &&
+    value.trim() !== "" &&
+    Number.isFinite(Number(value))
+  ) {
+    return Number(value);
+  }
+  if (typeof current === "boolean" && (value === "true" || value === "false")) {
+    return value === "true";
+  }
+  return value;
+}
+
+/**
+ * properties文件中的一个配置项
+ */
+interface PropertiesEntry {
+  key: string;
+  value: string;
+
+  /**
+   * 配置项所在的第一行和最后一行（续行），从0开始
+   */
+  startLine: number;
+  endLine: number;
+
+  /**
+   * 第一行中值之前的部分，包括键和分隔符
+   */
+  prefix: string;
+}
+
+/**
+ * 判断行是否以未转义的反斜杠结尾，即下一行是续行
+ * @param line 行
+ */
+function hasContinuation(line: string) {
+  const trailing = line.match(/\\*$/)![0].length;
+  return trailing % 2 === 1;
+}
+
+/**
+ * 解析properties文件
+ * 支持=、:和空白分隔符、#和!注释以及续行
+ * @param text 文件内容
+ */
+function parseProperties(text: string): PropertiesEntry[] {
+  const lines = text.split(/\r?\n/);
+  const entries: PropertiesEntry[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const startLine = i;
+    const line = lines[i];
+    let logical = line.replace(/^\s+/, "");
+    while (hasContinuation(logical) && i + 1 < lines.length) {
+      logical = logical.slice(0, -1) + lines[++i].replace(/^\s+/, "");
+    }
+    if (logical === "" || logical.startsWith("#") || logical.startsWith("!")) {
+      continue;
+    }
+
+    const match = logical.match(/^((?:\\.|[^\\=:\s])*)(\s*[=:]\s*|\s+|$)/);
+    const rawKey = match ? match[1] : logical;
+    const separator = match ? match[2] : "";
+    const leading = line.match(/^\s*/)![0];
+    entries.push({
+      key: unescapeProperties(rawKey),
+      value: unescapeProperties(
+        logical.slice(rawKey.length + separator.length)
+      ),
+      startLine,
+      endLine: i,
+      prefix: leading + rawKey + separator,
+    });
+  }
+  return entries;
+}
+
+/**
+ * 还原properties的转义字符
+ * @param text 转义后的文本
+ */
+function unescapeProperties(text: string) {
+  return text.replace(/\\(u[0-9a-fA-F]{4}|.)/g, (_, escaped: string) => {
+    if (escaped.length === 5) {
+      return String.fromCharCode(parseInt(escaped.slice(1), 16));
+    }
+    return escaped === "t"
+      ? "\t"
+      : escaped === "n"
+      ? "\n"
+      : escaped === "r"
+      ? "\r"
+      : escaped === "f"
+      ? "\f"
+      : escaped;
+  });
+}
+
+/**
+ * 转义properties的值
+ * @param value 值
+ */
+function escapePropertiesValue(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/\n/g, "\\n")
+    .replace(/\r/g, "\\r")
+    .replace(/\t/g, "\\t")
+    .replace(/^\s/, (space) => `\\${space}`);
+}
+
+/**
+ * 转义properties的键
+ * @param key 键
+ */
+function escapePropertiesKey(key: string) {
+  return key
+    .replace(/\\/g, "\\\\")
+    .replace(/\n/g, "\\n")
+    .replace(/\r/g, "\\r")
+    .replace(/\t/g, "\\t")
+    .replace(/[=: #!]/g, (char) => `\\${char}`);
+}
+
+/**
+ * 修改properties文件中的一个配置项
+ * @param text 文件内容
+ * @param key 键
+ * @param value 新值
+ */
+function setPropertiesValue(text: string, key: string, value: ConfigValue) {
+  if (value !== null && typeof value === "object") {
+    throw new Error(
+      `Invalid value for ${key}: properties files only support strings, numbers and booleans`
+    );
+  }
+  const escaped = escapePropertiesValue(value === null ? "" : String(value));
+  const newline = text.includes("\r\n") ? "\r\n" : "\n";
+  const lines = text.split(/\r?\n/);
+  const entry = parseProperties(text).find((entry) => entry.key === key);
+  if (entry) {
+    lines.splice(
+      entry.startLine,
+      entry.endLine - entry.startLine + 1,
+      entry.prefix + escaped
+    );
+    return lines.join(newline);
+  }
+
+  // 添加到文件末尾，保留末尾的换行
+  const line = `${escapePropertiesKey(key)}=${escaped}`;
+  if (text === "") {
+    return line + newline;
+  }
+  if (lines[lines.length - 1] === "") {
+    lines.splice(lines.length - 1, 0, line);
+  } else {
+    lines.push(line);
+  }
+  return lines.join(newline);
+}
+
+/**
+ * 解析YAML文件
+ * @param text 文件内容
+ */
+function parseYaml(text: string) {
+  const doc = parseDocument(text);
+  if (doc.errors.length > 0) {
+    throw new Error(`Invalid YAML: ${doc.errors[0].message}`);
+  }
+  return doc;
+}
+
+/**
+ * 修改YAML文件中的一个配置项
+ * 已存在的单行标量值直接在原文中替换，保持文件其余部分不变；
+ * 新增的键或对象、数组等复杂值需要重新序列化文档，此时按原文件的缩进风格输出
+ * @param text 文件内容
+ * @param key 键
+ * @param value 新值
+ */
+function setYamlValue(text: string, key: string, value: ConfigValue) {
+  const doc = parseYaml(text);
+  const path = splitKey(key);
+  const node = doc.hasIn(path) ? doc.getIn(path, true) : undefined;
+  if (isScalar(node)) {
+    value = coerceValue(node.value, value);
+  }
+
+  if (isScalar(node) && node.range && isPlainValue(value)) {
+    const scalar = new Scalar(value);
+    // 保留原来的引号风格，例如'text'仍然使用单引号
+    if (typeof value === "string" && typeof node.value === "string") {
+      scalar.type = node.type;
+    }
+    const rendered = new Document(scalar)
+      .toString({ lineWidth: 0 })
+      .replace(/\n$/, "");
+    if (!rendered.includes("\n")) {
+      const [start, valueEnd] = node.range;
+      return text.slice(0, start) + rendered + text.slice(valueEnd);
+    }
+  }
+
+  doc.setIn(path, value);
+  return doc.toString({
+    lineWidth: 0,
+    indent: detectIndent(text),
+    indentSeq: !/^( *)[^\s#-][^\n]*:[ \t]*\r?\n\1- /m.test(text),
+  });
+}
+
+/**
+ * 判断值是否为标量
+ * @param value 值
+ */
+function isPlainValue(value: ConfigValue) {
+  return (
+    value === null ||
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean"
+  );
+}
+
+/**
+ * 检测文件的缩进宽度
+ * @param text 文件内容
+ */
+function detectIndent(text: string) {
+  const indents = text
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== "" && !line.trim().startsWith("#"))
+    .map((line) => line.match(/^ */)![0].length)
+    .filter((indent) => indent > 0);
+  return indents.length > 0 ? Math.min(...indents) : 2;
+}
+
+/**
+ * 解析JSON文件
+ * @param text 文件内容
+ */
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new Error(
+      `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * 读取JSON中的路径
+ * @param data JSON数据
+ * @param path 路径
+ */
+function getJsonPath(
+  data: unknown,
+  path: Array<string | number>
+): { found: boolean; value?: unknown } {
+  let current = data;
+  for (const segment of path) {
+    if (
+      current === null ||
+      typeof current !== "object" ||
+      !Object.prototype.hasOwnProperty.call(current, segment)
+    ) {
+      return { found: false };
+    }
+    current = (current as Record<string | number, unknown>)[segment];
+  }
+  return { found: true, value: current };
+}
+
+/**
+ * JSON原文中的一个值及其位置
+ */
+interface JsonNode {
+  type: "object" | "array" | "value";
+
+  /**
+   * 值在原文中的起止位置，不包含end
+   */
+  start: number;
+  end: number;
+  members: JsonMember[];
+  items: JsonNode[];
+}
+
+/**
+ * JSON对象中的一个成员
+ */
+interface JsonMember {
+  key: string;
+
+  /**
+   * 键（包括引号）在原文中的起始位置
+   */
+  keyStart: number;
+  value: JsonNode;
+}
+
+/**
+ * 扫描JSON原文，记录每个值的位置
+ * 调用前需要确认原文是合法的JSON
+ * @param text 文件内容
+ */
+function scanJson(text: string): JsonNode {
+  let index = 0;
+  const skipWhitespace = () => {
+    while (/\s/.test(text[index] ?? "")) {
+      index++;
+    }
+  };
+  const scanString = () => {
+    const start = index++;
+    while (text[index] !== '"') {
+      index += text[index] === "\\" ? 2 : 1;
+    }
+    index++;
+    return JSON.parse(text.slice(start, index)) as string;
+  };
+  const scanValue = (): JsonNode => {
+    skipWhitespace();
+    const node: JsonNode = {
+      type: "value",
+      start: index,
+      end: index,
+      members: [],
+      items: [],
+    };
+    const char = text[index];
+    if (char === "{" || char === "[") {
+      node.type = char === "{" ? "object" : "array";
+      const close = char === "{" ? "}" : "]";
+      index++;
+      skipWhitespace();
+      while (text[index] !== close) {
+        if (node.type === "object") {
+          const keyStart = index;
+          const key = scanString();
+          skipWhitespace();
+          index++; // :
+          node.members.push({ key, keyStart, value: scanValue() });
+        } else {
+          node.items.push(scanValue());
+        }
+        skipWhitespace();
+        if (text[index] === ",") {
+          index++;
+          skipWhitespace();
+        }
+      }
+      index++;
+    } else if (char === '"') {
+      scanString();
+    } else {
+      while (index < text.length && !/[\s,\]}]/.test(text[index])) {
+        index++;
+      }
+    }
+    node.end = index;
+    return node;
+  };
+  return scanValue();
+}
+
+/**
+ * 获取某个位置所在行的缩进
+ * @param text 文件内容
+ * @param position 位置
+ */
+function lineIndentAt(text: string, position: number) {
+  const lineStart = text.lastIndexOf("\n", position - 1) + 1;
+  return text.slice(lineStart).match(/^[ \t]*/)![0];
+}
+
+/**
+ * 序列化JSON值，多行的值按所在行的缩进对齐
+ * @param value 值
+ * @param indent 缩进单位
+ * @param baseIndent 所在行的缩进
+ * @param newline 换行符
+ */
+function renderJson(
+  value: unknown,
+  indent: string,
+  baseIndent: string,
+  newline: string
+) {
+  const rendered = JSON.stringify(value, null, indent);
+  if (rendered === undefined) {
+    throw new Error("Value cannot be represented in JSON");
+  }
+  return rendered.replace(/\n/g, newline + baseIndent);
+}
+
+/**
+ * 修改JSON文件中的一个配置项
+ * 只替换或插入被修改的值的原文，其余内容（包括紧凑格式的数组和对象）保持不变；
+ * 不存在的中间对象会一起创建
+ * @param text 文件内容
+ * @param key 键
+ * @param value 新值
+ */
+function setJsonValue(text: string, key: string, value: ConfigValue) {
+  parseJson(text);
+  const path = splitKey(key);
+  const indentMatch = text.match(/\n([ \t]+)\S/);
+  const indent = indentMatch ? indentMatch[1] : "  ";
+  const newline = text.includes("\r\n") ? "\r\n" : "\n";
+
+  let node = scanJson(text);
+  for (const [index, segment] of path.entries()) {
+    const parent = path.slice(0, index).join(".") || "the root";
+    const last = index === path.length - 1;
+    let child: JsonNode | undefined;
+    if (node.type === "array") {
+      if (typeof segment !== "number" || segment >= node.items.length) {
+        throw new Error(
+          `Cannot set ${key}: ${parent} is an array, only its existing indexes can be set`
+        );
+      }
+      child = node.items[segment];
+    } else if (node.type === "object") {
+      const matches = node.members.filter(
+        (member) => member.key === String(segment)
+      );
+      // 重复的键以最后一个为准，与JSON.parse相同
+      child = matches[matches.length - 1]?.value;
+    } else {
+      throw new Error(`Cannot set ${key}: ${parent} is not an object`);
+    }
+
+    if (child && (last || child.type !== "value")) {
+      if (!last) {
+        node = child;
+        continue;
+      }
+      const currentValue = JSON.parse(text.slice(child.start, child.end));
+      const rendered = renderJson(
+        coerceValue(currentValue, value),
+        indent,
+        lineIndentAt(text, child.start),
+        newline
+      );
+      return text.slice(0, child.start) + rendered + text.slice(child.end);
+    }
+    if (child) {
+      throw new Error(
+        `Cannot set ${key}: ${path
+          .slice(0, index + 1)
+          .join(".")} is not an object`
+      );
+    }
+
+    // 键不存在：将剩余的路径构造为嵌套对象后插入
+    let inserted: unknown = value;
+    for (const rest of path.slice(index + 1).reverse()) {
+      inserted = { [rest]: inserted };
+    }
+    const name = JSON.stringify(String(segment));
+    const members = node.members;
+    if (members.length === 0) {
+      const baseIndent = lineIndentAt(text, node.start);
+      const memberIndent = baseIndent + indent;
+      const member = `${name}: ${renderJson(
+        inserted,
+        indent,
+        memberIndent,
+        newline
+      )}`;
+      return (
+        text.slice(0, node.start + 1) +
+        newline +
+        memberIndent +
+        member +
+        newline +
+        baseIndent +
+        text.slice(node.end - 1)
+      );
+    }
+
+    const lastMember = members[members.length - 1];
+    const inline = !text.slice(node.start, lastMember.keyStart).includes("\n");
+    const memberIndent = lineIndentAt(text, lastMember.keyStart);
+    const member = `${name}: ${renderJson(
+      inserted,
+      indent,
+      memberIndent,
+      newline
+    )}`;
+    const separator = inline ? ", " : `,${newline}${memberIndent}`;
+    return (
+      text.slice(0, lastMember.value.end) +
+      separator +
+      member +
+      text.slice(lastMember.value.end)
+    );
+  }
+  return text;
+}
@@ -0,0 +1,74 @@
+import { splitLines } from "./diff.js";
+
+/**
+ * 匹配ANSI转义序列（颜色、光标控制等）
+ */
+const ANSI_PATTERN = /\x1b\[[0-9;?]*[ -/]*[@-~]|\x1b\][^\x07]*\x07/g;
+
+/**
+ * 比较控制台输出前后两次快照时，用于定位旧输出末尾的字符数
+ */
+const ANCHOR_LENGTH = 2000;
+
+/**
+ * 去除控制台输出中的ANSI转义序列和回车符
+ * @param text 控制台输出
+ */
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, "").replace(/\r(?!\n)/g, "");
+}
+
+/**
+ * 获取最后若干行
+ * @param lines 所有行
+ * @param count 行数
+ */
+export function tailLines(lines: string[], count: number): string[] {
+  return count >= lines.length ? lines : lines.slice(lines.length - count);
+}
+
+/**
+ * 按正则表达式过滤行
+ * @param lines 所有行
+ * @param pattern 正则表达式
+ */
+export function filterLines(lines: string[], pattern: string): string[] {
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern);
+  } catch (error) {
+    throw new Error(
+      `Invalid filter regex: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+  return lines.filter((line) => regex.test(line));
+}
+
+/**
+ * 提取两次控制台输出快照之间新增的行
+ * 面板只保留有限长度的输出日志，旧内容可能已从开头被截断，
+ * 因此使用旧快照的末尾在新快照中定位新增部分
+ * @param before 发送命令前的输出
+ * @param after 发送命令后的输出
+ * @returns 新增的行；无法定位时返回undefined
+ */
+export function extractNewLines(
+  before: string,
+  after: string
+): string[] | undefined {
+  if (after.startsWith(before)) {
+    return splitLines(after.slice(before.length));
+  }
+
+  const anchor = before.slice(-ANCHOR_LENGTH);
+  if (anchor.length === 0) {
+    return splitLines(after);
+  }
+  const index = after.lastIndexOf(anchor);
+  if (index < 0) {
+    return undefined;
+  }
+  return splitLines(after.slice(index + anchor.length));
+}
@@ -0,0 +1,188 @@
+/**
+ * 差异中的一行
+ * - " ": 未修改
+ * - "-": 删除
+ * - "+": 新增
+ */
+export interface DiffLine {
+  type: " " | "-" | "+";
+  text: string;
+}
+
+/**
+ * 将文本拆分为行
+ * 统一换行符，并忽略末尾换行产生的空行
+ * @param text 文本
+ */
+export function splitLines(text: string): string[] {
+  if (text === "") {
+    return [];
+  }
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * 逐行比较两段文本
+ * 先去除公共前缀和后缀，再对剩余部分做最长公共子序列比较
+ * @param oldLines 原始行
+ * @param newLines 新的行
+ */
+export function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  let prefix = 0;
+  while (
+    prefix < oldLines.length &&
+    prefix < newLines.length &&
+    oldLines[prefix] === newLines[prefix]
+  ) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] ===
+      newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+
+  const result: DiffLine[] = oldLines
+    .slice(0, prefix)
+    .map((text) => ({ type: " ", text }));
+  result.push(...diffMiddle(oldMiddle, newMiddle));
+  result.push(
+    ...oldLines
+      .slice(oldLines.length - suffix)
+      .map((text) => ({ type: " " as const, text }))
+  );
+  return result;
+}
+
+/**
+ * 使用最长公共子序列比较差异部分
+ * @param a 原始行
+ * @param b 新的行
+ */
+function diffMiddle(a: string[], b: string[]): DiffLine[] {
+  const n = a.length;
+  const m = b.length;
+
+  // 差异过大时不再计算最长公共子序列，直接整体替换
+  if (n * m > 25_000_000) {
+    return [
+      ...a.map((text) => ({ type: "-" as const, text })),
+      ...b.map((text) => ({ type: "+" as const, text })),
+    ];
+  }
+
+  // lengths[i * (m + 1) + j] 为 a[i..] 与 b[j..] 的最长公共子序列长度
+  const lengths = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * (m + 1) + j] =
+        a[i] === b[j]
+          ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(
+              lengths[(i + 1) * (m + 1) + j],
+              lengths[i * (m + 1) + j + 1]
+            );
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      result.push({ type: " ", text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+      result.push({ type: "-", text: a[i++] });
+    } else {
+      result.push({ type: "+", text: b[j++] });
+    }
+  }
+  while (i < n) {
+    result.push({ type: "-", text: a[i++] });
+  }
+  while (j < m) {
+    result.push({ type: "+", text: b[j++] });
+  }
+  return result;
+}
+
+/**
+ * 生成统一格式(unified diff)的差异文本
+ * @param oldText 原始文本
+ * @param newText 新的文本
+ * @param fileName 文件名，用于差异头
+ * @param context 每处修改保留的上下文行数
+ * @returns 差异文本，内容相同时返回空字符串
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  fileName: string,
+  context: number = 3
+): string {
+  const lines = diffLines(splitLines(oldText), splitLines(newText));
+  if (lines.every((line) => line.type === " ")) {
+    return "";
+  }
+
+  const output = [`--- a/${fileName}`, `+++ b/${fileName}`];
+
+  // 每一行在原始文件和新文件中的行号（从1开始）
+  const oldNumbers: number[] = [];
+  const newNumbers: number[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const line of lines) {
+    oldNumbers.push(oldLine);
+    newNumbers.push(newLine);
+    if (line.type !== "+") oldLine++;
+    if (line.type !== "-") newLine++;
+  }
+
+  let index = 0;
+  while (index < lines.length) {
+    // 查找下一处修改
+    while (index < lines.length && lines[index].type === " ") {
+      index++;
+    }
+    if (index >= lines.length) {
+      break;
+    }
+
+    // 向后合并相距不超过两倍上下文的修改
+    const start = Math.max(0, index - context);
+    let end = index;
+    let unchanged = 0;
+    while (end < lines.length && unchanged <= context * 2) {
+      unchanged = lines[end].type === " " ? unchanged + 1 : 0;
+      end++;
+    }
+    end = Math.min(lines.length, end - unchanged + context);
+
+    const hunk = lines.slice(start, end);
+    const oldCount = hunk.filter((line) => line.type !== "+").length;
+    const newCount = hunk.filter((line) => line.type !== "-").length;
+    const oldStart = oldCount === 0 ? oldNumbers[start] - 1 : oldNumbers[start];
+    const newStart = newCount === 0 ? newNumbers[start] - 1 : newNumbers[start];
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    output.push(...hunk.map((line) => `${line.type}${line.text}`));
+
+    index = end;
+  }
+
+  return output.join("\n");
+}
@@ -0,0 +1,54 @@
+/**
+ * 规范化实例文件路径
+ * 路径相对于实例的工作目录（cwd），结果总是以/开头且不包含.和空的路径段。
+ * 包含..、空字符或Windows盘符的路径可能逃出工作目录，直接拒绝而不是尝试解析
+ * @param path 文件路径
+ * @returns 规范化后的路径，工作目录本身为/
+ */
+export function normalizeInstancePath(path: string): string {
+  if (path.includes("\0")) {
+    throw new Error(`Invalid path "${path}": contains a null character`);
+  }
+  if (/^[a-zA-Z]:/.test(path)) {
+    throw new Error(
+      `Invalid path "${path}": paths must be relative to the instance directory`
+    );
+  }
+
+  const segments = path
+    .split(/[\\/]+/)
+    .filter((segment) => segment !== "" && segment !== ".");
+  if (segments.includes("..")) {
+    throw new Error(
+      `Invalid path "${path}": ".." is not allowed, paths must stay inside the instance directory`
+    );
+  }
+  return `/${segments.join("/")}`;
+}
+
+/**
+ * 规范化要修改的实例文件路径
+ * 与normalizeInstancePath相同，但不允许指向实例工作目录本身
+ * @param path 文件路径
+ */
+export function normalizeWritablePath(path: string): string {
+  const normalized = normalizeInstancePath(path);
+  if (normalized === "/") {
+    throw new Error(
+      `Invalid path "${path}": the instance directory itself cannot be modified`
+    );
+  }
+  return normalized;
+}
+
+/**
+ * 拆分路径为所在目录和文件名
+ * @param path 规范化后的路径
+ */
+export function splitPath(path: string): { directory: string; name: string } {
+  const index = path.lastIndexOf("/");
+  return {
+    directory: index <= 0 ? "/" : path.slice(0, index),
+    name: path.slice(index + 1),
+  };
+}
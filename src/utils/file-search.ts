@@ -0,0 +1,241 @@
+/**
+ * 目录中的一项
+ */
+export interface DirectoryEntry {
+  name: string;
+  size?: number;
+  time?: string;
+  type: number;
+}
+
+/**
+ * 遍历目录时找到的文件或目录
+ */
+export interface WalkEntry {
+  /**
+   * 规范化后的路径，以/开头
+   */
+  path: string;
+  name: string;
+  type: "file" | "directory";
+  size?: number;
+  time?: string;
+
+  /**
+   * 深度，遍历起点下的直接子项为1
+   */
+  depth: number;
+}
+
+/**
+ * 目录遍历选项
+ */
+export interface WalkOptions {
+  /**
+   * 最大深度，遍历起点下的直接子项为1
+   */
+  maxDepth: number;
+
+  /**
+   * 同时读取的目录数量
+   */
+  concurrency: number;
+
+  /**
+   * 最多读取的目录数量
+   */
+  maxDirectories: number;
+}
+
+/**
+ * 目录遍历结果
+ */
+export interface WalkResult {
+  /**
+   * 已读取的目录数量
+   */
+  directories: number;
+
+  /**
+   * 是否因为达到目录数量上限或被提前停止而没有遍历完
+   */
+  truncated: boolean;
+
+  /**
+   * 读取失败的目录及错误信息
+   */
+  errors: string[];
+}
+
+/**
+ * 以有限的并发数对每一项执行操作
+ * @param items 项
+ * @param concurrency 并发数
+ * @param fn 操作
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const workers = Array.from(
+    { length: Math.min(concurrency, items.length) },
+    async () => {
+      while (next < items.length) {
+        const index = next++;
+        results[index] = await fn(items[index]);
+      }
+    }
+  );
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * 将glob模式转换为正则表达式
+ * 支持*（不跨目录）、**（跨目录）、?、[abc]和{a,b}
+ * @param pattern glob模式
+ * @param ignoreCase 是否忽略大小写
+ */
+export function globToRegExp(pattern: string, ignoreCase = false): RegExp {
+  let source = "";
+  let braces = 0;
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+    if (char === "*") {
+      if (pattern[index + 1] === "*") {
+        index++;
+        // **/ 可以匹配零个或多个目录
+        if (pattern[index + 1] === "/") {
+          index++;
+          source += "(?:.*/)?";
+        } else {
+          source += ".*";
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = pattern.indexOf("]", index + 1);
+      if (end === -1) {
+        source += "\\[";
+      } else {
+        const set = pattern.slice(index + 1, end).replace(/\\/g, "\\\\");
+        source += `[${set.startsWith("!") ? `^${set.slice(1)}` : set}]`;
+        index = end;
+      }
+    } else if (char === "{") {
+      braces++;
+      source += "(?:";
+    } else if (char === "}" && braces > 0) {
+      braces--;
+      source += ")";
+    } else if (char === "," && braces > 0) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^$()|\\]/g, "\\$&");
+    }
+  }
+  if (braces > 0) {
+    throw new Error(`Invalid glob pattern "${pattern}": unclosed {`);
+  }
+  return new RegExp(`^${source}$`, ignoreCase ? "i" : "");
+}
+
+/**
+ * 创建文件路径匹配函数
+ * 不包含/的模式只匹配文件名（例如*.yml），包含/的模式匹配相对于遍历起点的路径（例如plugins/Essentials/*.yml）
+ * @param pattern glob模式
+ * @param root 遍历起点
+ * @param ignoreCase 是否忽略大小写
+ */
+export function createPathMatcher(
+  pattern: string,
+  root: string,
+  ignoreCase = false
+): (entry: WalkEntry) => boolean {
+  const trimmed = pattern.replace(/^\/+/, "");
+  const regex = globToRegExp(trimmed, ignoreCase);
+  if (!trimmed.includes("/")) {
+    return (entry) => regex.test(entry.name);
+  }
+  const prefix = root === "/" ? 1 : root.length + 1;
+  return (entry) => regex.test(entry.path.slice(prefix));
+}
+
+/**
+ * 逐层遍历目录树
+ * 同一层的目录以有限的并发数读取，避免大量目录（例如世界存档）同时请求守护进程；
+ * 子目录读取失败时记录错误并继续遍历其他目录，遍历起点读取失败时直接抛出错误
+ * @param root 遍历起点，规范化后的路径
+ * @param listDirectory 读取目录内容
+ * @param options 遍历选项
+ * @param visit 处理找到的每一项，返回false时停止遍历
+ */
+export async function walkDirectory(
+  root: string,
+  listDirectory: (path: string) => Promise<DirectoryEntry[]>,
+  options: WalkOptions,
+  visit: (entry: WalkEntry) => boolean
+): Promise<WalkResult> {
+  const result: WalkResult = { directories: 0, truncated: false, errors: [] };
+  let level = [root];
+
+  for (let depth = 1; level.length > 0 && depth <= options.maxDepth; depth++) {
+    const remaining = options.maxDirectories - result.directories;
+    if (level.length > remaining) {
+      level = level.slice(0, remaining);
+      result.truncated = true;
+    }
+
+    const listings = await mapWithConcurrency(
+      level,
+      options.concurrency,
+      async (directory) => {
+        try {
+          return await listDirectory(directory);
+        } catch (error) {
+          if (directory === root) {
+            throw error;
+          }
+          result.errors.push(
+            `${directory}: ${
+              error instanceof Error ? error.message : String(error)
+            }`
+          );
+          return [];
+        }
+      }
+    );
+    result.directories += level.length;
+
+    const next: string[] = [];
+    for (const [index, items] of listings.entries()) {
+      const parent = level[index] === "/" ? "" : level[index];
+      for (const item of items) {
+        const entry: WalkEntry = {
+          path: `${parent}/${item.name}`,
+          name: item.name,
+          type: item.type === 0 ? "directory" : "file",
+          size: item.size,
+          time: item.time,
+          depth,
+        };
+        if (!visit(entry)) {
+          result.truncated = true;
+          return result;
+        }
+        if (entry.type === "directory") {
+          next.push(entry.path);
+        }
+      }
+    }
+    level = next;
+  }
+
+  return result;
+}
@@ -0,0 +1,306 @@
+import { splitLines } from "./diff.js";
+
+/**
+ * 搜索替换修改
+ */
+export interface SearchReplaceEdit {
+  /**
+   * 要查找的原文，必须与文件内容完全一致
+   */
+  search: string;
+
+  /**
+   * 替换后的文本
+   */
+  replace: string;
+
+  /**
+   * 是否替换所有匹配，默认要求原文在文件中只出现一次
+   */
+  replaceAll?: boolean;
+}
+
+/**
+ * 统一差异中的一个修改块
+ */
+interface Hunk {
+  header: string;
+  oldStart: number;
+  oldLines: string[];
+  newLines: string[];
+}
+
+/**
+ * 补丁无法应用时抛出的错误，消息中包含每一处冲突的说明
+ */
+export class PatchConflictError extends Error {
+  /**
+   * 每一处冲突的说明
+   */
+  conflicts: string[];
+
+  constructor(conflicts: string[]) {
+    super(
+      `Patch does not apply, the file may have changed since it was read. Read the file again and rebuild the patch.\n\n${conflicts.join(
+        "\n\n"
+      )}`
+    );
+    this.name = "PatchConflictError";
+    this.conflicts = conflicts;
+  }
+}
+
+/**
+ * 按原文件的换行符和末尾换行重新拼接行
+ * @param original 原始文本
+ * @param lines 新的行
+ */
+function joinLines(original: string, lines: string[]): string {
+  if (lines.length === 0) {
+    return "";
+  }
+  const eol = original.includes("\r\n") ? "\r\n" : "\n";
+  const trailing = original === "" || /\n$/.test(original) ? eol : "";
+  return lines.join(eol) + trailing;
+}
+
+/**
+ * 格式化行用于冲突说明，每行前加上行号
+ * @param lines 行
+ * @param start 第一行的行号（从1开始）
+ */
+function formatLines(lines: string[], start: number): string {
+  if (lines.length === 0) {
+    return "    (end of file)";
+  }
+  return lines.map((line, index) => `    ${start + index}: ${line}`).join("\n");
+}
+
+/**
+ * 解析统一差异格式(unified diff)的补丁
+ * 文件头（---/+++）和"\ No newline at end of file"标记会被忽略
+ * @param patch 补丁文本
+ */
+function parseUnifiedDiff(patch: string): Hunk[] {
+  const lines = splitLines(patch);
+  const hunks: Hunk[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const header = lines[index++];
+    const match = header.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+    if (!match) {
+      if (header.startsWith("@@")) {
+        throw new Error(`Invalid hunk header: ${header}`);
+      }
+      continue;
+    }
+
+    const oldCount = match[2] === undefined ? 1 : parseInt(match[2]);
+    const newCount = match[4] === undefined ? 1 : parseInt(match[4]);
+    const hunk: Hunk = {
+      header,
+      oldStart: parseInt(match[1]),
+      oldLines: [],
+      newLines: [],
+    };
+
+    while (
+      index < lines.length &&
+      (hunk.oldLines.length < oldCount || hunk.newLines.length < newCount)
+    ) {
+      const line = lines[index++];
+      // 部分编辑器会删除上下文空行的前导空格
+      const type = line === "" ? " " : line[0];
+      const text = line.slice(1);
+      if (type === " ") {
+        hunk.oldLines.push(text);
+        hunk.newLines.push(text);
+      } else if (type === "-") {
+        hunk.oldLines.push(text);
+      } else if (type === "+") {
+        hunk.newLines.push(text);
+      } else if (type !== "\\") {
+        throw new Error(`Invalid line in hunk ${header}: ${line}`);
+      }
+    }
+    if (
+      hunk.oldLines.length !== oldCount ||
+      hunk.newLines.length !== newCount
+    ) {
+      throw new Error(
+        `Hunk ${header} is truncated: expected ${oldCount} original and ${newCount} new lines, got ${hunk.oldLines.length} and ${hunk.newLines.length}`
+      );
+    }
+    hunks.push(hunk);
+  }
+
+  if (hunks.length === 0) {
+    throw new Error("Patch does not contain any hunks (@@ -a,b +c,d @@)");
+  }
+  return hunks;
+}
+
+/**
+ * 检查原文件的某个位置是否与修改块的原始行一致
+ * @param lines 原文件的行
+ * @param position 位置（从0开始）
+ * @param expected 修改块的原始行
+ */
+function matchesAt(lines: string[], position: number, expected: string[]) {
+  if (position < 0 || position + expected.length > lines.length) {
+    return false;
+  }
+  return expected.every((line, index) => lines[position + index] === line);
+}
+
+/**
+ * 应用统一差异格式(unified diff)的补丁
+ * 每个修改块的上下文和删除行必须与文件内容完全一致。修改块优先应用在标注的行号处，
+ * 行号不一致时（例如文件前面插入了几行）在附近查找最近的匹配位置；找不到时视为冲突，
+ * 所有冲突会一起报告，任何一处冲突都不会修改文件
+ * @param text 原始文本
+ * @param patch 补丁文本
+ * @returns 应用补丁后的文本
+ * @throws PatchConflictError 补丁与文件内容不一致时抛出
+ */
+export function applyUnifiedDiff(text: string, patch: string): string {
+  const lines = splitLines(text);
+  const hunks = parseUnifiedDiff(patch);
+  const output: string[] = [];
+  const conflicts: string[] = [];
+  let cursor = 0;
+  let offset = 0;
+
+  for (const [index, hunk] of hunks.entries()) {
+    // 没有原始行的修改块插入在oldStart行之后
+    const expected =
+      (hunk.oldLines.length === 0 ? hunk.oldStart : hunk.oldStart - 1) + offset;
+
+    let position = -1;
+    for (let distance = 0; ; distance++) {
+      const before = expected - distance;
+      const after = expected + distance;
+      if (before < cursor && after > lines.length) {
+        break;
+      }
+      if (before >= cursor && matchesAt(lines, before, hunk.oldLines)) {
+        position = before;
+        break;
+      }
+      if (
+        distance > 0 &&
+        after >= cursor &&
+        matchesAt(lines, after, hunk.oldLines)
+      ) {
+        position = after;
+        break;
+      }
+    }
+
+    if (position === -1) {
+      const start = Math.min(Math.max(expected, cursor), lines.length);
+      conflicts.push(
+        [
+          `Hunk ${index + 1} (${hunk.header}) does not match the file.`,
+          "  Expected:",
+          formatLines(hunk.oldLines, start + 1),
+          "  Found:",
+          formatLines(
+            lines.slice(start, start + Math.max(hunk.oldLines.length, 1)),
+            start + 1
+          ),
+        ].join("\n")
+      );
+      continue;
+    }
+
+    output.push(...lines.slice(cursor, position), ...hunk.newLines);
+    cursor = position + hunk.oldLines.length;
+    offset = position - (expected - offset);
+  }
+
+  if (conflicts.length > 0) {
+    throw new PatchConflictError(conflicts);
+  }
+  output.push(...lines.slice(cursor));
+  return joinLines(text, output);
+}
+
+/**
+ * 计算文本中某个位置所在的行号（从1开始）
+ * @param text 文本
+ * @param index 位置
+ */
+function lineNumberAt(text: string, index: number) {
+  return text.slice(0, index).split("\n").length;
+}
+
+/**
+ * 按顺序应用搜索替换修改
+ * 每处原文默认必须在文件中恰好出现一次，找不到或出现多次都视为冲突，
+ * 所有冲突会一起报告，任何一处冲突都不会修改文件
+ * @param text 原始文本
+ * @param edits 修改列表
+ * @returns 应用修改后的文本
+ * @throws PatchConflictError 原文找不到或不唯一时抛出
+ */
+export function applySearchReplace(
+  text: string,
+  edits: SearchReplaceEdit[]
+): string {
+  // 统一按文件的换行符匹配，调用方通常只会使用\n
+  const eol = text.includes("\r\n") ? "\r\n" : "\n";
+  const normalize = (value: string) => value.replace(/\r?\n/g, eol);
+  const conflicts: string[] = [];
+  let result = text;
+
+  for (const [index, edit] of edits.entries()) {
+    const search = normalize(edit.search);
+    if (search === "") {
+      conflicts.push(`Edit ${index + 1}: search text must not be empty.`);
+      continue;
+    }
+
+    const first = result.indexOf(search);
+    if (first === -1) {
+      conflicts.push(
+        `Edit ${index + 1}: search text not found in the file${
+          index > 0 ? " (after applying the previous edits)" : ""
+        }:\n${splitLines(edit.search)
+          .map((line) => `    ${line}`)
+          .join("\n")}`
+      );
+      continue;
+    }
+
+    const replace = normalize(edit.replace);
+    if (edit.replaceAll) {
+      result = result.split(search).join(replace);
+      continue;
+    }
+
+    const second = result.indexOf(search, first + 1);
+    if (second !== -1) {
+      conflicts.push(
+        `Edit ${
+          index + 1
+        }: search text is ambiguous, it appears at lines ${lineNumberAt(
+          result,
+          first
+        )} and ${lineNumberAt(
+          result,
+          second
+        )}. Include more surrounding lines or set replaceAll.`
+      );
+      continue;
+    }
+    result =
+      result.slice(0, first) + replace + result.slice(first + search.length);
+  }
+
+  if (conflicts.length > 0) {
+    throw new PatchConflictError(conflicts);
+  }
+  return result;
+}
@@ -0,0 +1,419 @@
+import { ScheduleInput } from "../api/mcsmanager-api.js";
+import { Schedule } from "../api/schemas.js";
+
+/**
+ * 计划任务类型
+ * - interval: 每隔固定秒数执行
+ * - cycle: 每天或每周的固定时间执行
+ * - once: 在指定的日期和时间执行
+ */
+export type ScheduleKind = "interval" | "cycle" | "once";
+
+/**
+ * 计划任务类型与面板类型编号的对应关系
+ */
+export const SCHEDULE_TYPES: Record<ScheduleKind, number> = {
+  interval: 1,
+  cycle: 2,
+  once: 3,
+};
+
+/**
+ * cron表达式各字段的取值范围，依次为秒、分、时、日、月、星期
+ */
+const CRON_FIELDS: Array<[number, number]> = [
+  [0, 59],
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+
+/**
+ * 星期的名称，0和7都表示星期日
+ */
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+/**
+ * 查找下一次执行时间时最多向后查找的天数
+ */
+const MAX_LOOKAHEAD_DAYS = 366 * 4;
+
+/**
+ * 计划任务的执行时间
+ */
+export interface ScheduleTimeInput {
+  /**
+   * interval类型的间隔秒数
+   */
+  intervalSeconds?: number;
+
+  /**
+   * cycle类型的执行时间，HH:MM或HH:MM:SS
+   */
+  time?: string;
+
+  /**
+   * cycle类型的执行星期，1-7表示星期一到星期日，不填表示每天
+   */
+  weekdays?: number[];
+
+  /**
+   * once类型的执行时间，ISO 8601格式
+   */
+  at?: string;
+}
+
+/**
+ * 创建计划任务的参数
+ */
+export interface ScheduleOptions extends ScheduleTimeInput {
+  kind: ScheduleKind;
+  action: string;
+
+  /**
+   * 要发送的命令，action为command时必填
+   */
+  payload?: string;
+
+  /**
+   * 执行次数，-1表示不限，默认interval和cycle类型为-1，once类型为1
+   */
+  count?: number;
+}
+
+/**
+ * 便于阅读的计划任务
+ */
+export interface ScheduleSummary {
+  name: string;
+  kind: ScheduleKind | "unknown";
+  action: string;
+  payload?: string;
+
+  /**
+   * 执行时间的描述，例如every day at 04:00:00
+   */
+  when: string;
+
+  /**
+   * 剩余执行次数，unlimited表示不限
+   */
+  remainingRuns: number | "unlimited";
+
+  /**
+   * 下一次执行时间，ISO 8601格式；间隔执行的任务无法计算时不返回
+   */
+  nextRun?: string;
+
+  /**
+   * 面板中的原始时间字段
+   */
+  time: string;
+}
+
+/**
+ * 解析cron表达式的一个字段
+ * 支持*、数字、a-b范围、逗号分隔的列表和/步长
+ * @param field 字段
+ * @param min 最小值
+ * @param max 最大值
+ * @returns 字段允许的所有值，从小到大排列
+ */
+function parseCronField(field: string, min: number, max: number): number[] {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) {
+      throw new Error(`Invalid cron field "${field}"`);
+    }
+    const start = match[1] === "*" ? min : parseInt(match[2]);
+    const end =
+      match[1] === "*"
+        ? max
+        : match[3] !== undefined
+        ? parseInt(match[3])
+        : match[4] !== undefined
+        ? max
+        : start;
+    const step = match[4] !== undefined ? parseInt(match[4]) : 1;
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Invalid cron field "${field}"`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return [...values].sort((a, b) => a - b);
+}
+
+/**
+ * 计算cron表达式的下一次执行时间（使用本地时区）
+ * 日和星期都有限制时，满足其中一个即可，与cron的行为相同
+ * @param expression "秒 分 时 日 月 星期"格式的cron表达式
+ * @param from 起始时间，不包含该时刻
+ * @returns 下一次执行时间，找不到时返回undefined
+ */
+export function nextCronRun(expression: string, from: Date): Date | undefined {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 6) {
+    throw new Error(
+      `Invalid cron expression "${expression}": expected 6 fields (second minute hour day month weekday)`
+    );
+  }
+  const [seconds, minutes, hours, days, months, weekdays] = fields.map(
+    (field, index) => parseCronField(field, ...CRON_FIELDS[index])
+  );
+  const weekdaySet = new Set(weekdays.map((day) => day % 7));
+  const dayRestricted = fields[3] !== "*";
+  const weekdayRestricted = fields[5] !== "*";
+
+  const start = new Date(from.getTime() + 1000);
+  start.setMilliseconds(0);
+  const day = new Date(start);
+  day.setHours(0, 0, 0, 0);
+
+  for (let offset = 0; offset < MAX_LOOKAHEAD_DAYS; offset++) {
+    const dayMatches = days.includes(day.getDate());
+    const weekdayMatches = weekdaySet.has(day.getDay());
+    const dateMatches =
+      dayRestricted && weekdayRestricted
+        ? dayMatches || weekdayMatches
+        : dayMatches && weekdayMatches;
+
+    if (months.includes(day.getMonth() + 1) && dateMatches) {
+      for (const hour of hours) {
+        for (const minute of minutes) {
+          for (const second of seconds) {
+            const candidate = new Date(day);
+            candidate.setHours(hour, minute, second, 0);
+            if (candidate >= start) {
+              return candidate;
+            }
+          }
+        }
+      }
+    }
+    day.setDate(day.getDate() + 1);
+  }
+  return undefined;
+}
+
+/**
+ * 格式化两位数
+ * @param value 数字
+ */
+function pad(value: number) {
+  return String(value).padStart(2, "0");
+}
+
+/**
+ * 将秒数格式化为便于阅读的时长，例如1h 30m
+ * @param seconds 秒数
+ */
+function formatDuration(seconds: number) {
+  const units: Array<[string, number]> = [
+    ["d", 86400],
+    ["h", 3600],
+    ["m", 60],
+    ["s", 1],
+  ];
+  const parts: string[] = [];
+  let remaining = seconds;
+  for (const [unit, size] of units) {
+    if (remaining >= size) {
+      parts.push(`${Math.floor(remaining / size)}${unit}`);
+      remaining %= size;
+    }
+  }
+  return parts.join(" ") || "0s";
+}
+
+/**
+ * 生成面板计划任务的time字段
+ * cycle和once类型按本地时区转换为cron表达式，与守护进程不在同一时区时需要自行换算
+ * @param kind 计划任务类型
+ * @param input 执行时间
+ */
+export function buildScheduleTime(
+  kind: ScheduleKind,
+  input: ScheduleTimeInput
+): string {
+  if (kind === "interval") {
+    if (input.intervalSeconds === undefined) {
+      throw new Error("intervalSeconds is required for interval schedules");
+    }
+    return String(input.intervalSeconds);
+  }
+
+  if (kind === "cycle") {
+    const match = input.time?.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+    if (!match) {
+      throw new Error(
+        'time is required for cycle schedules, in HH:MM or HH:MM:SS format, for example "04:00"'
+      );
+    }
+    const [hour, minute, second] = [match[1], match[2], match[3] ?? "0"].map(
+      (value) => parseInt(value)
+    );
+    if (hour > 23 || minute > 59 || second > 59) {
+      throw new Error(`Invalid time "${input.time}"`);
+    }
+    const weekdays =
+      input.weekdays && input.weekdays.length > 0
+        ? [...new Set(input.weekdays)].sort((a, b) => a - b).join(",")
+        : "*";
+    return `${second} ${minute} ${hour} * * ${weekdays}`;
+  }
+
+  const date = input.at ? new Date(input.at) : undefined;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new Error(
+      'at is required for once schedules, in ISO 8601 format, for example "2024-01-01T04:00:00+08:00"'
+    );
+  }
+  return `${date.getSeconds()} ${date.getMinutes()} ${date.getHours()} ${date.getDate()} ${
+    date.getMonth() + 1
+  } *`;
+}
+
+/**
+ * 从面板计划任务的time字段还原执行时间，是buildScheduleTime的逆操作
+ * 只还原能表示为执行时间参数的部分，例如秒、分、时不是单个值的cron表达式不会还原time
+ * @param kind 计划任务类型
+ * @param time 面板中的time字段
+ * @param now 当前时间，用于计算once类型的执行日期
+ */
+export function parseScheduleTime(
+  kind: ScheduleKind,
+  time: string,
+  now: Date = new Date()
+): ScheduleTimeInput {
+  if (kind === "interval") {
+    const seconds = parseInt(time);
+    return Number.isNaN(seconds) ? {} : { intervalSeconds: seconds };
+  }
+
+  const [second, minute, hour, , , weekday] = time.trim().split(/\s+/);
+  const input: ScheduleTimeInput = {};
+  if ([second, minute, hour].every((field) => /^\d+$/.test(field ?? ""))) {
+    input.time = `${pad(parseInt(hour))}:${pad(parseInt(minute))}:${pad(
+      parseInt(second)
+    )}`;
+  }
+  if (kind === "cycle" && /^\d+(,\d+)*$/.test(weekday ?? "")) {
+    // cron中0和7都表示星期日，执行时间参数使用7
+    input.weekdays = weekday.split(",").map((value) => parseInt(value) || 7);
+  }
+  if (kind === "once") {
+    try {
+      input.at = nextCronRun(time, now)?.toISOString();
+    } catch {
+      // 无法解析的表达式不还原执行日期
+    }
+  }
+  return input;
+}
+
+/**
+ * 生成要提交给面板的计划任务
+ * @param name 任务名称
+ * @param options 任务参数
+ * @param time 已有的time字段，提供时不再根据执行时间参数生成
+ */
+export function buildSchedule(
+  name: string,
+  options: ScheduleOptions,
+  time?: string
+): ScheduleInput {
+  if (options.action === "command" && !options.payload) {
+    throw new Error("payload is required when action is command");
+  }
+  return {
+    name,
+    count: options.count ?? (options.kind === "once" ? 1 : -1),
+    time: time ?? buildScheduleTime(options.kind, options),
+    action: options.action,
+    type: SCHEDULE_TYPES[options.kind],
+    payload: options.action === "command" ? options.payload ?? "" : "",
+  };
+}
+
+/**
+ * 描述cron表达式的执行时间
+ * 只有秒、分、时都是单个值时才能转换为便于阅读的形式，否则返回原始表达式
+ * @param expression cron表达式
+ */
+function describeCron(expression: string) {
+  const [second, minute, hour, day, month, weekday] = expression
+    .trim()
+    .split(/\s+/);
+  if (![second, minute, hour].every((field) => /^\d+$/.test(field))) {
+    return `cron "${expression}"`;
+  }
+  const time = `${pad(parseInt(hour))}:${pad(parseInt(minute))}:${pad(
+    parseInt(second)
+  )}`;
+
+  if (day === "*" && month === "*") {
+    if (weekday === "*") {
+      return `every day at ${time}`;
+    }
+    if (/^\d+(,\d+)*$/.test(weekday)) {
+      const names = weekday
+        .split(",")
+        .map((value) => WEEKDAY_NAMES[parseInt(value)] ?? value);
+      return `every ${names.join(", ")} at ${time}`;
+    }
+  }
+  if (/^\d+$/.test(day) && /^\d+$/.test(month) && weekday === "*") {
+    return `on ${pad(parseInt(month))}-${pad(parseInt(day))} at ${time}`;
+  }
+  return `cron "${expression}"`;
+}
+
+/**
+ * 将面板返回的计划任务转换为便于阅读的形式
+ * @param schedule 计划任务
+ * @param now 当前时间，用于计算下一次执行时间
+ */
+export function summarizeSchedule(
+  schedule: Schedule | ScheduleInput,
+  now: Date = new Date()
+): ScheduleSummary {
+  const kind =
+    (Object.keys(SCHEDULE_TYPES) as ScheduleKind[]).find(
+      (key) => SCHEDULE_TYPES[key] === schedule.type
+    ) ?? "unknown";
+  const count = schedule.count ?? -1;
+  const summary: ScheduleSummary = {
+    name: schedule.name,
+    kind,
+    action: schedule.action,
+    payload: schedule.payload || undefined,
+    when: `time "${schedule.time}"`,
+    remainingRuns: count < 0 ? "unlimited" : count,
+    time: schedule.time,
+  };
+
+  if (kind === "interval") {
+    const seconds = parseInt(schedule.time);
+    if (!Number.isNaN(seconds)) {
+      summary.when = `every ${formatDuration(seconds)}`;
+    }
+    return summary;
+  }
+
+  if (kind !== "unknown") {
+    summary.when = describeCron(schedule.time);
+    if (count !== 0) {
+      try {
+        summary.nextRun = nextCronRun(schedule.time, now)?.toISOString();
+      } catch {
+        // 无法解析的表达式只显示原始内容
+      }
+    }
+  }
+  return summary;
+}
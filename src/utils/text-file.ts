@@ -0,0 +1,182 @@
+import { tailLines } from "./console-output.js";
+
+/**
+ * 判断是否为二进制文件时检查的字符数
+ */
+const BINARY_SAMPLE_LENGTH = 8000;
+
+/**
+ * 行范围选项
+ */
+export interface LineRange {
+  /**
+   * 起始行号（从1开始，包含）
+   */
+  startLine?: number;
+
+  /**
+   * 结束行号（包含）
+   */
+  endLine?: number;
+
+  /**
+   * 只取前N行
+   */
+  head?: number;
+
+  /**
+   * 只取后N行
+   */
+  tail?: number;
+}
+
+/**
+ * 选取的行
+ */
+export interface SelectedLines {
+  /**
+   * 第一行的行号（从1开始）
+   */
+  firstLine: number;
+  lines: string[];
+}
+
+/**
+ * 文件内搜索选项
+ */
+export interface SearchOptions {
+  /**
+   * 每处匹配前后保留的上下文行数
+   */
+  context: number;
+
+  /**
+   * 最多返回的匹配行数
+   */
+  maxMatches: number;
+  ignoreCase?: boolean;
+}
+
+/**
+ * 判断面板返回的文件内容是否为二进制数据
+ * 面板按文本编码解码文件，二进制文件会包含空字符或大量替换字符和控制字符
+ * @param text 文件内容
+ */
+export function isBinaryContent(text: string): boolean {
+  const sample = text.slice(0, BINARY_SAMPLE_LENGTH);
+  if (sample.includes("\0")) {
+    return true;
+  }
+  const suspicious = sample.match(
+    /[\ufffd\x01-\x08\x0b\x0e-\x1a\x1c-\x1f]/g
+  )?.length;
+  return (suspicious ?? 0) > sample.length * 0.1;
+}
+
+/**
+ * 按行范围选取行
+ * @param lines 所有行
+ * @param range 行范围，startLine/endLine、head和tail只能使用一种
+ */
+export function selectLines(lines: string[], range: LineRange): SelectedLines {
+  const { startLine, endLine, head, tail } = range;
+  const modes = [
+    startLine !== undefined || endLine !== undefined,
+    head !== undefined,
+    tail !== undefined,
+  ].filter(Boolean).length;
+  if (modes > 1) {
+    throw new Error("Use only one of startLine/endLine, head or tail");
+  }
+
+  if (head !== undefined) {
+    return { firstLine: 1, lines: lines.slice(0, head) };
+  }
+  if (tail !== undefined) {
+    const selected = tailLines(lines, tail);
+    return { firstLine: lines.length - selected.length + 1, lines: selected };
+  }
+
+  const start = startLine ?? 1;
+  const end = Math.min(endLine ?? lines.length, lines.length);
+  if (endLine !== undefined && endLine < start) {
+    throw new Error(`endLine ${endLine} is before startLine ${start}`);
+  }
+  return { firstLine: start, lines: lines.slice(start - 1, end) };
+}
+
+/**
+ * 在行中搜索正则表达式，返回带行号和上下文的结果
+ * 匹配行的行号后使用冒号，上下文行使用短横线，不相邻的结果之间用--分隔，与grep的输出格式相同
+ * @param selected 要搜索的行
+ * @param pattern 正则表达式
+ * @param options 搜索选项
+ */
+export function searchLines(
+  selected: SelectedLines,
+  pattern: string,
+  options: SearchOptions
+): { matches: number; truncated: boolean; text: string } {
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern, options.ignoreCase ? "i" : "");
+  } catch (error) {
+    throw new Error(
+      `Invalid search regex: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  const { lines, firstLine } = selected;
+  const matched: number[] = [];
+  let truncated = false;
+  for (let index = 0; index < lines.length; index++) {
+    if (regex.test(lines[index])) {
+      if (matched.length >= options.maxMatches) {
+        truncated = true;
+        break;
+      }
+      matched.push(index);
+    }
+  }
+
+  const output: string[] = [];
+  const matchedSet = new Set(matched);
+  let last = -1;
+  for (const index of matched) {
+    const start = Math.max(index - options.context, last + 1);
+    const end = Math.min(index + options.context, lines.length - 1);
+    if (last >= 0 && start > last + 1) {
+      output.push("--");
+    }
+    for (let line = start; line <= end; line++) {
+      const separator = matchedSet.has(line) ? ":" : "-";
+      output.push(`${firstLine + line}${separator}${lines[line]}`);
+    }
+    last = Math.max(last, end);
+  }
+
+  return { matches: matched.length, truncated, text: output.join("\n") };
+}
+
+/**
+ * 按UTF-8字节数截断文本，不会截断多字节字符
+ * @param text 文本
+ * @param maxBytes 最大字节数
+ */
+export function truncateBytes(
+  text: string,
+  maxBytes: number
+): { text: string; truncated: boolean; totalBytes: number } {
+  const buffer = Buffer.from(text);
+  if (buffer.length <= maxBytes) {
+    return { text, truncated: false, totalBytes: buffer.length };
+  }
+  // 解码时末尾不完整的字符会变成替换字符，去掉它
+  const truncated = buffer
+    .subarray(0, maxBytes)
+    .toString("utf8")
+    .replace(/\ufffd$/, "");
+  return { text: truncated, truncated: true, totalBytes: buffer.length };
+}